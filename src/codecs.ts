@@ -0,0 +1,61 @@
+import type { Codec, CodecName, WebSocketData } from './types.js';
+import { parseMessage, serializeMessage, isBinaryData } from './utils.js';
+
+/**
+ * JSON codec (default)
+ *
+ * Decodes text frames with JSON.parse, falling back to the raw string when the
+ * frame is not valid JSON. Encodes objects with JSON.stringify. Binary data is
+ * passed through intact in both directions.
+ */
+export const jsonCodec: Codec = {
+  encode: data => serializeMessage(data),
+  decode: data => parseMessage(data),
+};
+
+/**
+ * Text codec
+ *
+ * Delivers text frames as-is (no JSON parsing, so "123" stays a string) and
+ * decodes binary frames as UTF-8. Encodes non-binary values with String().
+ */
+export const textCodec: Codec = {
+  encode: data => (typeof data === 'string' || isBinaryData(data) ? data : String(data)),
+  decode: data => {
+    if (typeof data === 'string') {
+      return data;
+    }
+    if (typeof Blob !== 'undefined' && data instanceof Blob) {
+      return data.text();
+    }
+    return new TextDecoder().decode(data as ArrayBuffer | ArrayBufferView);
+  },
+};
+
+/**
+ * Raw codec
+ *
+ * Passes frames through untouched in both directions. Outgoing data must
+ * already be a string or binary data accepted by WebSocket.send().
+ */
+export const rawCodec: Codec = {
+  encode: data => data as WebSocketData,
+  decode: data => data,
+};
+
+/** Built-in codecs selectable by name in SocketOptions.codec */
+export const codecs = {
+  json: jsonCodec,
+  text: textCodec,
+  raw: rawCodec,
+} as const;
+
+/**
+ * Resolve a codec option to a codec implementation
+ *
+ * @param codec - Built-in codec name or custom codec
+ * @returns Codec with encode/decode hooks
+ */
+export function resolveCodec(codec: Codec | CodecName): Codec {
+  return typeof codec === 'string' ? codecs[codec] : codec;
+}
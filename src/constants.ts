@@ -2,12 +2,71 @@
  * Default configuration constants
  */
 
+import type { ConnectionState } from './types.js';
+
+/** readyState values matching WebSocket.CONNECTING/OPEN/CLOSING/CLOSED without relying on the global */
+export const READY_STATE_CONNECTING = 0;
+export const READY_STATE_OPEN = 1;
+export const READY_STATE_CLOSING = 2;
+export const READY_STATE_CLOSED = 3;
+
 /** Default reconnect interval in milliseconds */
 export const DEFAULT_RECONNECT_INTERVAL = 1000;
 
 /** Default maximum reconnect interval in milliseconds */
 export const DEFAULT_MAX_RECONNECT_INTERVAL = 30000;
 
+/** Default number of consecutive failed attempts before downgrading to the next fallback transport */
+export const DEFAULT_FALLBACK_AFTER = 3;
+
+/** Default handshake timeout in milliseconds (0 waits for the browser to give up) */
+export const DEFAULT_CONNECT_TIMEOUT = 0;
+
+/** Default number of failed connections within the window that opens the circuit breaker */
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 5;
+
+/** Default circuit breaker failure window in milliseconds */
+export const DEFAULT_CIRCUIT_BREAKER_WINDOW = 60000;
+
+/** Default time the circuit breaker stays open before a half-open attempt in milliseconds */
+export const DEFAULT_CIRCUIT_BREAKER_COOLDOWN = 30000;
+
+/** Default time the page may stay hidden before the connection is closed (0 keeps it open) */
+export const DEFAULT_NETWORK_HIDDEN_TIMEOUT = 0;
+
+/** Default endpoint selection strategy when SocketOptions.url is a list */
+export const DEFAULT_FAILOVER_STRATEGY = 'priority';
+
+/** Default delay between probes of the primary endpoint in milliseconds */
+export const DEFAULT_FAILOVER_PROBE_INTERVAL = 30000;
+
+/** Default delay between heartbeat pings in milliseconds */
+export const DEFAULT_HEARTBEAT_INTERVAL = 30000;
+
+/** Default time to wait for a heartbeat pong in milliseconds */
+export const DEFAULT_HEARTBEAT_TIMEOUT = 10000;
+
+/** Default heartbeat ping payload */
+export const DEFAULT_HEARTBEAT_MESSAGE = 'ping';
+
+/** Default heartbeat pong payload matched by the default isPong */
+export const DEFAULT_HEARTBEAT_PONG = 'pong';
+
+/** Number of recent round-trip times kept for latency statistics */
+export const LATENCY_SAMPLE_SIZE = 20;
+
+/** Default message field used for request/response correlation ids */
+export const DEFAULT_REQUEST_ID_KEY = 'id';
+
+/** Default time to wait for a request reply in milliseconds */
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/** Default discriminator field read by Socket.on() and Socket.stream() */
+export const DEFAULT_ROUTER_KEY = 'type';
+
+/** Default WebSocket.binaryType so binary frames arrive as ArrayBuffer */
+export const DEFAULT_BINARY_TYPE = 'arraybuffer';
+
 /** Default buffer size for receive and send queues */
 export const DEFAULT_BUFFER_SIZE = 100;
 
@@ -19,3 +78,15 @@ export const RECONNECT_JITTER_RATIO = 0.2;
 
 /** Polling interval in milliseconds for waitForItems fallback */
 export const POLLING_INTERVAL_MS = 100;
+
+/** Allowed connection state transitions, enforced by ConnectionHandler */
+export const CONNECTION_STATE_TRANSITIONS: Record<ConnectionState, readonly ConnectionState[]> = {
+  idle: ['connecting', 'closed', 'disposed'],
+  connecting: ['open', 'reconnecting', 'closing', 'closed', 'failed', 'disposed'],
+  open: ['reconnecting', 'closing', 'closed', 'failed', 'disposed'],
+  reconnecting: ['connecting', 'closed', 'failed', 'disposed'],
+  closing: ['connecting', 'closed', 'disposed'],
+  closed: ['connecting', 'disposed'],
+  failed: ['connecting', 'closed', 'disposed'],
+  disposed: [],
+};
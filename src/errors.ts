@@ -0,0 +1,26 @@
+import type { ConnectionState, StandardSchemaIssue, ValidationDirection } from './types.js';
+
+/**
+ * Thrown by messages() and events() iterators created with onClose: 'throw'
+ * when the socket closes for good
+ */
+export class SocketClosedError extends Error {
+  constructor(public readonly state: ConnectionState) {
+    super(`Socket ${state}`);
+    this.name = 'SocketClosedError';
+  }
+}
+
+/**
+ * Thrown by send() for a message rejected by ValidateConfig.outgoing when
+ * rejectInvalidSend is set
+ */
+export class ValidationError extends Error {
+  constructor(
+    public readonly direction: ValidationDirection,
+    public readonly issues: ReadonlyArray<StandardSchemaIssue>
+  ) {
+    super(`Invalid ${direction} message: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
@@ -1,92 +1,136 @@
-import type { SocketEvent, InternalSocketState } from './types.js';
-import { waitForItems, parseMessage } from './utils.js';
+import type {
+  SocketEvent,
+  InternalSocketState,
+  BufferConfig,
+  MessagesOptions,
+  EventsOptions,
+  EventSubscriber,
+  MessageMatch,
+  MessageSubscriber,
+} from './types.js';
+import { SocketClosedError } from './errors.js';
+import { acceptsEvent, isIteratorClosed, waitForItems } from './utils.js';
 
 /**
  * Async generator for consuming messages from the socket
  *
- * Yields messages from the message buffer as they arrive. Automatically manages
- * buffer lifecycle - clears buffer when no active iterators remain.
+ * Registers its own receive buffer so that every concurrent iterator sees every
+ * message. Messages are buffered already decoded by the codec in
+ * MessageHandler.receive, and only if they pass options.filter; options.map is
+ * applied as they are yielded. The buffer is released when the iterator finishes.
+ * Once the socket closes for good, the iterator drains its buffer and then
+ * finishes or throws SocketClosedError, depending on options.onClose.
  *
- * @param state - Internal socket state containing message buffer and resolvers
- * @param signal - Optional AbortSignal to cancel message consumption
- * @yields Parsed incoming messages (JSON parsed if possible, otherwise string)
+ * @param state - Internal socket state holding the set of message subscribers
+ * @param config - Receive buffer size and overflow policy for this iterator
+ * @param options - AbortSignal, close behavior, filter and map for this iterator
+ * @param match - Only yield messages of this topic or discriminator values (used by subscribe() and stream())
+ * @yields Incoming messages decoded by the configured codec (transformed by options.map)
  */
-export async function* messagesGenerator<Incoming = string>(
+export async function* messagesGenerator<Incoming = string, Output = Incoming>(
   state: InternalSocketState<Incoming>,
-  signal?: AbortSignal
-): AsyncGenerator<Incoming> {
-  state.activeMessageIterators++;
+  config: Required<BufferConfig>,
+  options: MessagesOptions<Incoming, Output> = {},
+  match: MessageMatch = {}
+): AsyncGenerator<Output> {
+  const { signal, onClose = 'complete', persistent = true, filter, map } = options;
+  const subscriber: MessageSubscriber<Incoming> = {
+    buffer: [],
+    resolvers: new Set(),
+    config,
+    ...match,
+    filter,
+  };
+  state.messageSubscribers.add(subscriber);
+  const isClosed = () => isIteratorClosed(state.connectionState, persistent);
 
   try {
     while (true) {
       if (signal?.aborted) break;
 
       // Yield buffered messages
-      while (state.messageBuffer.length > 0) {
+      while (subscriber.buffer.length > 0) {
         if (signal?.aborted) break;
+        const message = subscriber.buffer.shift()!;
+        yield map ? map(message) : (message as unknown as Output);
+      }
 
-        const messageStr = state.messageBuffer.shift()!;
-        const parsed = parseMessage<Incoming>(messageStr);
-        yield parsed;
+      if (isClosed()) {
+        if (onClose === 'throw') throw new SocketClosedError(state.connectionState);
+        break;
       }
 
-      // Wait for new messages
+      // Wait for new messages or a state change
       await waitForItems(
         signal,
-        () => state.messageBuffer.length > 0,
-        state.messageResolvers,
-        resolve => state.messageResolvers.add(resolve),
-        resolve => state.messageResolvers.delete(resolve)
+        () => subscriber.buffer.length > 0 || isClosed(),
+        subscriber.resolvers,
+        resolve => subscriber.resolvers.add(resolve),
+        resolve => subscriber.resolvers.delete(resolve)
       );
     }
   } finally {
-    state.activeMessageIterators--;
-    if (state.activeMessageIterators === 0) {
-      state.messageBuffer = [];
-    }
+    state.messageSubscribers.delete(subscriber);
   }
 }
 
 /**
  * Async generator for consuming events from the socket
  *
- * Yields events from the event queue as they occur. Automatically manages
- * queue lifecycle - clears queue when no active iterators remain.
+ * Registers its own event buffer so that every concurrent iterator sees every
+ * event. When no other iterator is active, the new iterator starts with the
+ * recent events kept in the shared event queue. Events rejected by
+ * options.types or options.filter are never buffered; options.map is applied
+ * as they are yielded. Once the socket closes for good, the iterator drains
+ * its buffer (including the final close and stateChange events) and then
+ * finishes or throws SocketClosedError.
  *
- * @param state - Internal socket state containing event queue and resolvers
- * @param signal - Optional AbortSignal to cancel event consumption
- * @yields SocketEvent objects representing connection events, messages, and errors
+ * @param state - Internal socket state holding the event queue and event subscribers
+ * @param options - AbortSignal, close behavior, types, filter and map for this iterator
+ * @yields SocketEvent objects representing connection events, messages, and errors (transformed by options.map)
  */
-export async function* eventsGenerator<Incoming = string>(
+export async function* eventsGenerator<Incoming = string, Output = SocketEvent>(
   state: InternalSocketState<Incoming>,
-  signal?: AbortSignal
-): AsyncGenerator<SocketEvent> {
-  state.activeEventIterators++;
+  options: EventsOptions<Output> = {}
+): AsyncGenerator<Output> {
+  const { signal, onClose = 'complete', persistent = true, types, filter, map } = options;
+  const subscriber: EventSubscriber = {
+    buffer: [],
+    resolvers: new Set(),
+    types: types ? new Set(types) : undefined,
+    filter,
+  };
+  // The recent event queue is only filled while no iterators are active
+  subscriber.buffer = state.eventQueue.splice(0).filter(event => acceptsEvent(subscriber, event));
+  state.eventSubscribers.add(subscriber);
+  const isClosed = () => isIteratorClosed(state.connectionState, persistent);
 
   try {
     while (true) {
       if (signal?.aborted) break;
 
       // Yield queued events
-      while (state.eventQueue.length > 0) {
+      while (subscriber.buffer.length > 0) {
         if (signal?.aborted) break;
-        yield state.eventQueue.shift()!;
+        const event = subscriber.buffer.shift()!;
+        yield map ? map(event) : (event as unknown as Output);
+      }
+
+      if (isClosed()) {
+        if (onClose === 'throw') throw new SocketClosedError(state.connectionState);
+        break;
       }
 
       // Wait for new events
       await waitForItems(
         signal,
-        () => state.eventQueue.length > 0,
-        state.eventResolvers,
-        resolve => state.eventResolvers.add(resolve),
-        resolve => state.eventResolvers.delete(resolve)
+        () => subscriber.buffer.length > 0 || isClosed(),
+        subscriber.resolvers,
+        resolve => subscriber.resolvers.add(resolve),
+        resolve => subscriber.resolvers.delete(resolve)
       );
     }
   } finally {
-    state.activeEventIterators--;
-    // Clear event queue when no iterators to prevent memory leak
-    if (state.activeEventIterators === 0) {
-      state.eventQueue = [];
-    }
+    state.eventSubscribers.delete(subscriber);
   }
 }
@@ -0,0 +1,69 @@
+import type { CircuitState, InternalSocketState, NormalizedSocketOptions } from '../types.js';
+import { createEvent } from '../utils.js';
+import { EventHandler } from './event-handler.js';
+
+/**
+ * Handles the circuit breaker around reconnect attempts
+ *
+ * The circuit opens after `threshold` failed connections within `window`,
+ * holding reconnects back for `cooldown`. The next attempt runs half-open:
+ * if it connects the circuit closes, otherwise it opens again.
+ */
+export class CircuitBreakerHandler<Incoming> {
+  constructor(
+    private state: InternalSocketState<Incoming>,
+    private opts: NormalizedSocketOptions,
+    private eventHandler: EventHandler<Incoming>
+  ) {}
+
+  /**
+   * Record a failed or lost connection
+   *
+   * @returns Delay in milliseconds before the next attempt while the circuit is open, otherwise null
+   */
+  recordFailure(): number | null {
+    const { enabled, threshold, window, cooldown } = this.opts.circuitBreaker;
+    if (!enabled) {
+      return null;
+    }
+
+    const now = Date.now();
+    this.state.circuitFailures = this.state.circuitFailures.filter(ts => now - ts < window);
+    this.state.circuitFailures.push(now);
+
+    if (this.state.circuitState === 'half-open' || this.state.circuitFailures.length >= threshold) {
+      this.transition('open');
+      return cooldown;
+    }
+    return null;
+  }
+
+  recordSuccess(): void {
+    if (this.state.circuitState === 'closed') {
+      return;
+    }
+    this.state.circuitFailures = [];
+    this.transition('closed');
+  }
+
+  /**
+   * Let a connection attempt through an open circuit as the half-open probe
+   */
+  beforeAttempt(): void {
+    if (this.state.circuitState === 'open') {
+      this.transition('half-open');
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state.circuitState;
+    this.state.circuitState = to;
+    this.eventHandler.emit(
+      createEvent('circuitChange', {
+        from,
+        to,
+        failures: this.state.circuitFailures.length,
+      })
+    );
+  }
+}
@@ -1,43 +1,94 @@
-import type { InternalSocketState, NormalizedSocketOptions } from '../types.js';
-import { createEvent, calculateReconnectInterval } from '../utils.js';
+import type {
+  CloseInfo,
+  ConnectContext,
+  ConnectionState,
+  InternalSocketState,
+  NormalizedSocketOptions,
+  WaitOptions,
+  WebSocketData,
+  WebSocketLike,
+} from '../types.js';
+import { CONNECTION_STATE_TRANSITIONS } from '../constants.js';
+import {
+  createEvent,
+  calculateReconnectInterval,
+  notifyResolvers,
+  isPromiseLike,
+} from '../utils.js';
 import { EventHandler } from './event-handler.js';
 import { MessageHandler } from './message-handler.js';
+import { HeartbeatHandler } from './heartbeat-handler.js';
+import { RequestHandler } from './request-handler.js';
+import { EndpointHandler } from './endpoint-handler.js';
+import { CircuitBreakerHandler } from './circuit-breaker-handler.js';
+import { TransportHandler } from './transport-handler.js';
+import { NetworkHandler } from './network-handler.js';
+import { SubscriptionHandler } from './subscription-handler.js';
 
 /**
  * Handles WebSocket connection, reconnection, and lifecycle management
+ *
+ * Tracks the connection state machine (idle → connecting → open → reconnecting →
+ * closed/failed). Every state change goes through transition(), which rejects
+ * moves not listed in CONNECTION_STATE_TRANSITIONS.
  */
 export class ConnectionHandler<Incoming, Outgoing> {
+  // Incremented by every connect() and teardown so a slow URL provider or
+  // beforeConnect hook cannot open a socket for an attempt that was abandoned
+  private connectId = 0;
+
   constructor(
     private state: InternalSocketState<Incoming>,
     private opts: NormalizedSocketOptions,
     private eventHandler: EventHandler<Incoming>,
-    private messageHandler: MessageHandler<Incoming, Outgoing>
+    private messageHandler: MessageHandler<Incoming, Outgoing>,
+    private heartbeatHandler: HeartbeatHandler<Incoming>,
+    private requestHandler: RequestHandler<Incoming, Outgoing>,
+    private endpointHandler: EndpointHandler<Incoming>,
+    private circuitBreakerHandler: CircuitBreakerHandler<Incoming>,
+    private transportHandler: TransportHandler<Incoming>,
+    private networkHandler: NetworkHandler<Incoming>,
+    private subscriptionHandler: SubscriptionHandler<Incoming, Outgoing>
   ) {}
 
-  scheduleReconnect(): void {
+  /**
+   * Schedule the next reconnect attempt
+   *
+   * @param interval - Delay in milliseconds; computed from ReconnectConfig.backoff when omitted
+   */
+  scheduleReconnect(interval?: number): void {
     if (this.state.reconnectTimer) {
       clearTimeout(this.state.reconnectTimer);
+      this.state.reconnectTimer = null;
+    }
+
+    // Offline or suspended while hidden: resume() schedules the attempt later
+    if (!this.networkHandler.canReconnect()) {
+      return;
     }
 
     if (this.state.reconnectCount >= this.opts.reconnect.attempts) {
       return;
     }
 
-    const interval = calculateReconnectInterval(
-      this.state.reconnectCount,
-      this.opts.reconnect.interval,
-      this.opts.reconnect.backoff,
-      this.opts.reconnect.maxInterval
-    );
+    const delay = interval ?? this.getReconnectInterval();
+    if (delay === null) {
+      return;
+    }
+    this.state.lastReconnectInterval = delay;
 
     this.eventHandler.emit(
       createEvent('reconnect', {
         attempt: this.state.reconnectCount + 1,
-        interval,
+        interval: delay,
       })
     );
 
     this.state.reconnectTimer = setTimeout(() => {
+      // Went offline during the delay: wait for resume() without using up an attempt
+      if (!this.networkHandler.canReconnect()) {
+        return;
+      }
       this.state.reconnectCount++;
       this.eventHandler.emit(
         createEvent('reconnect', {
@@ -45,7 +96,7 @@ export class ConnectionHandler<Incoming, Outgoing> {
         })
       );
       this.connect();
-    }, interval);
+    }, delay);
   }
 
   connect(): void {
@@ -53,64 +104,468 @@ export class ConnectionHandler<Incoming, Outgoing> {
       return;
     }
 
+    const from = this.state.connectionState;
+    // Throws when already connecting or open, or after dispose()
+    this.transition('connecting', from === 'reconnecting' ? 'reconnect' : 'connect');
+
+    // A manual (re)start gets the full reconnect budget and backoff again
+    if (from !== 'reconnecting') {
+      this.state.reconnectCount = 0;
+      this.state.lastReconnectInterval = null;
+    }
+
+    // A manual connect() during the reconnect delay replaces the pending attempt
+    if (this.state.reconnectTimer) {
+      clearTimeout(this.state.reconnectTimer);
+    }
+    // connect() after close() resumes automatic reconnection
+    this.state.isManualClose = false;
+    this.circuitBreakerHandler.beforeAttempt();
+
+    const connectId = ++this.connectId;
+    const context: ConnectContext = {
+      url: '',
+      protocols: this.opts.protocols,
+      attempt: this.state.reconnectCount,
+    };
+
+    let prepared: void | Promise<void>;
     try {
-      this.state.ws = this.opts.protocols
-        ? new WebSocket(this.opts.url, this.opts.protocols)
-        : new WebSocket(this.opts.url);
+      prepared = this.prepareConnect(context);
+    } catch (error) {
+      this.handleConnectError(error, 'beforeConnect');
+      return;
+    }
+
+    // Stay synchronous unless the URL provider or hook is async
+    if (isPromiseLike(prepared)) {
+      prepared.then(
+        () => {
+          if (connectId === this.connectId) this.openSocket(context);
+        },
+        error => {
+          if (connectId === this.connectId) this.handleConnectError(error, 'beforeConnect');
+        }
+      );
+      return;
+    }
+    this.openSocket(context);
+  }
+
+  /**
+   * Reconnect right away once the network is back or the page is visible again
+   *
+   * The backoff starts over, since the failures were caused by the network.
+   */
+  resume(): void {
+    if (this.state.connectionState !== 'reconnecting') {
+      return;
+    }
+    this.state.reconnectCount = 0;
+    this.state.lastReconnectInterval = null;
+    this.scheduleReconnect(0);
+  }
+
+  /**
+   * Close the connection while the page is hidden; reconnecting waits for resume()
+   */
+  suspend(): void {
+    const { connectionState } = this.state;
+    if (connectionState === 'reconnecting') {
+      if (this.state.reconnectTimer) {
+        clearTimeout(this.state.reconnectTimer);
+        this.state.reconnectTimer = null;
+      }
+      return;
+    }
+    if (connectionState !== 'open' && connectionState !== 'connecting') {
+      return;
+    }
+
+    // Abandon an attempt still waiting for the URL provider or beforeConnect
+    this.connectId++;
+    const ws = this.state.ws;
+    if (ws) {
+      this.detachSocket(ws);
+      ws.close(1000, 'Page hidden');
+      this.releaseSocket(1000, 'Page hidden', true);
+    }
+    this.transition('reconnecting', 'hidden');
+  }
+
+  async ready(options?: WaitOptions): Promise<void> {
+    if (this.state.connectionState === 'open') {
+      return;
+    }
+    if (this.state.connectionState === 'failed') {
+      throw new Error('Reconnect attempts exhausted');
+    }
+    if (this.state.connectionState === 'closed') {
+      throw new Error('Socket closed');
+    }
+    if (this.state.connectionState === 'disposed') {
+      throw new Error('Socket disposed');
+    }
+    await this.eventHandler.waitFor('open', undefined, options);
+  }
+
+  close(code?: number, reason?: string): void {
+    if (this.state.connectionState === 'disposed') {
+      return;
+    }
+    const ws = this.teardown(new Error('Connection closed'));
+    if (ws) {
+      ws.close(code, reason);
+      // The socket's onclose completes the move to 'closed'
+      this.transition('closing', 'manual');
+    } else if (this.state.connectionState !== 'closed') {
+      this.transition('closed', 'manual');
+    }
+  }
+
+  /**
+   * Close the connection for good
+   *
+   * Unlike close(), the socket cannot be reconnected afterwards: pending requests
+   * and waits are rejected, callbacks are removed, and every messages()/events()
+   * iterator finishes once its buffered items are consumed.
+   */
+  dispose(): void {
+    if (this.state.connectionState === 'disposed') {
+      return;
+    }
+    const ws = this.teardown(new Error('Socket disposed'));
+    this.networkHandler.stop();
+    if (ws) {
+      this.detachSocket(ws);
+      ws.close();
+    }
+    this.transition('disposed', 'dispose');
+
+    this.state.messageCallbacks.clear();
+    this.state.eventCallbacks.clear();
+    this.state.routeCallbacks.clear();
+    this.state.unknownCallbacks.clear();
+    this.state.subscriptions.clear();
+  }
+
+  /**
+   * Stop timers, drop queued and pending work, and release the current socket
+   *
+   * @returns The socket that was current, for the caller to close
+   */
+  private teardown(error: Error): WebSocketLike | null {
+    this.state.isManualClose = true;
+    this.connectId++;
+    this.heartbeatHandler.stop();
+    this.endpointHandler.stopProbe();
+    if (this.state.reconnectTimer) {
+      clearTimeout(this.state.reconnectTimer);
+      this.state.reconnectTimer = null;
+    }
+    this.clearConnectTimer();
+    const ws = this.state.ws;
+    this.state.ws = null;
+    if (this.state.abortController) {
+      this.state.abortController.abort();
+      this.state.abortController = null;
+    }
+    this.messageHandler.discardQueue(error);
+    this.requestHandler.rejectAll(error);
+    return ws;
+  }
+
+  /**
+   * Resolve the URL and run the beforeConnect hook for one connection attempt
+   */
+  private prepareConnect(context: ConnectContext): void | Promise<void> {
+    const url = Array.isArray(this.opts.url)
+      ? this.endpointHandler.select()
+      : typeof this.opts.url === 'function'
+        ? this.opts.url()
+        : this.opts.url;
+    const runHook = (resolved: string) => {
+      context.url = resolved;
+      return this.opts.beforeConnect?.(context);
+    };
+    return isPromiseLike(url) ? Promise.resolve(url).then(runHook) : runHook(url);
+  }
+
+  private openSocket(context: ConnectContext): void {
+    // close(), suspend() and newer connect() calls move this.connectId on,
+    // which marks this socket as stale
+    const connectId = this.connectId;
+    // A socket closed by close() and replaced by a newer connect() only reports
+    // its close event; the state belongs to the new attempt, which may still be
+    // waiting for the URL provider or beforeConnect hook
+    const isReplaced = () =>
+      connectId !== this.connectId && this.state.connectionState !== 'closing';
 
-      this.state.ws.onopen = () => {
+    try {
+      const ws = this.transportHandler.create(context.url, context.protocols);
+      this.state.ws = ws;
+
+      ws.binaryType = this.opts.binaryType;
+      this.startConnectTimer(ws);
+
+      ws.onopen = () => {
+        // Ignore a socket that close() gave up on before it finished opening
+        if (connectId !== this.connectId) {
+          return;
+        }
+        this.clearConnectTimer();
         this.state.reconnectCount = 0;
-        this.eventHandler.emit(createEvent('open'));
+        this.state.lastReconnectInterval = null;
+        this.state.lastError = null;
+        this.state.lastClose = null;
+        this.endpointHandler.reportSuccess();
+        this.transportHandler.reportSuccess();
+        this.circuitBreakerHandler.recordSuccess();
+        this.transition('open', 'open');
+        this.eventHandler.emit(createEvent('open', { url: context.url }));
+        // Subscriptions go out before data queued while disconnected
+        this.subscriptionHandler.resubscribe();
         this.messageHandler.flushQueue();
+        this.heartbeatHandler.start(() => this.handleHeartbeatTimeout());
+        this.endpointHandler.startProbe(() => this.switchToPrimary());
       };
 
-      this.state.ws.onmessage = event => {
-        const data = typeof event.data === 'string' ? event.data : String(event.data);
+      ws.onmessage = event => {
+        if (isReplaced()) {
+          return;
+        }
+        const data = event.data as WebSocketData;
+        if (this.heartbeatHandler.handleMessage(data)) {
+          return;
+        }
         this.messageHandler.receive(data);
       };
 
-      this.state.ws.onerror = error => {
+      ws.onerror = error => {
+        if (isReplaced()) {
+          return;
+        }
+        this.state.lastError = error;
         this.eventHandler.emit(createEvent('error', { error }));
       };
 
-      this.state.ws.onclose = event => {
-        this.eventHandler.emit(
-          createEvent('close', {
-            code: event.code,
-            reason: event.reason,
-            wasClean: event.wasClean,
-          })
-        );
-        if (
-          !this.state.isManualClose &&
-          this.opts.reconnect.enabled &&
-          this.state.reconnectCount < this.opts.reconnect.attempts
-        ) {
-          this.scheduleReconnect();
+      ws.onclose = event => {
+        if (this.state.connectionState === 'disposed') {
+          return;
         }
+        if (isReplaced()) {
+          this.eventHandler.emit(
+            createEvent('close', {
+              code: event.code,
+              reason: event.reason,
+              wasClean: event.wasClean,
+            })
+          );
+          return;
+        }
+        this.handleClose(event.code, event.reason, event.wasClean);
       };
     } catch (error) {
-      this.eventHandler.emit(createEvent('error', { error }));
-      if (this.opts.reconnect.enabled && this.state.reconnectCount < this.opts.reconnect.attempts) {
-        this.scheduleReconnect();
+      this.handleConnectError(error);
+    }
+  }
+
+  /**
+   * Report a failed connection attempt and fall back to the reconnect logic
+   */
+  private handleConnectError(error: unknown, reason?: string): void {
+    this.state.lastError = error;
+    // A failing beforeConnect hook says nothing about the transport
+    if (reason !== 'beforeConnect') {
+      this.transportHandler.reportFailure();
+    }
+    this.eventHandler.emit(createEvent('error', reason ? { error, reason } : { error }));
+    this.handleDisconnect('error');
+  }
+
+  private handleClose(code: number, reason: string, wasClean: boolean, cause = 'close'): void {
+    this.state.lastClose = { code, reason, wasClean };
+    if (this.state.connectionState === 'connecting') {
+      this.transportHandler.reportFailure();
+    }
+    this.releaseSocket(code, reason, wasClean);
+    this.handleDisconnect(cause, this.state.lastClose);
+  }
+
+  private releaseSocket(code: number, reason: string, wasClean: boolean): void {
+    // Drop the dead socket so close() during the reconnect delay does not try to close it again
+    this.state.ws = null;
+    this.clearConnectTimer();
+    this.heartbeatHandler.stop();
+    this.endpointHandler.stopProbe();
+    // Replies to in-flight requests cannot arrive on a new connection
+    this.requestHandler.rejectAll(new Error('Connection closed'));
+    this.eventHandler.emit(
+      createEvent('close', {
+        code,
+        reason,
+        wasClean,
+      })
+    );
+  }
+
+  /**
+   * Move from a fallback endpoint back to the primary once a probe reached it
+   */
+  private switchToPrimary(): void {
+    const ws = this.state.ws;
+    if (!ws || this.state.connectionState !== 'open') {
+      return;
+    }
+    this.detachSocket(ws);
+    ws.close(1000, 'Failover to primary');
+    this.releaseSocket(1000, 'Failover to primary', true);
+    this.transition('reconnecting', 'failover');
+    this.connect();
+  }
+
+  /**
+   * Move to the state that follows a lost or failed connection and schedule a
+   * reconnect when allowed
+   */
+  private handleDisconnect(reason: string, closeEvent: CloseInfo | null = null): void {
+    if (!this.state.isManualClose) {
+      this.endpointHandler.reportFailure();
+    }
+    if (this.state.isManualClose || !this.opts.reconnect.enabled) {
+      // close() may already have finished the move while this socket was closing
+      if (this.state.connectionState === 'closed') {
+        return;
       }
+      this.transition('closed', this.state.isManualClose ? 'manual' : reason);
+      return;
+    }
+
+    const { attempts, fatalCodes, immediateCodes, shouldReconnect } = this.opts.reconnect;
+    if (closeEvent && fatalCodes.includes(closeEvent.code)) {
+      this.fail('fatal_close_code', closeEvent);
+      return;
+    }
+    if (
+      closeEvent &&
+      shouldReconnect &&
+      !shouldReconnect(closeEvent, this.state.reconnectCount + 1)
+    ) {
+      this.fail('should_reconnect', closeEvent);
+      return;
+    }
+    if (this.state.reconnectCount >= attempts) {
+      this.fail('reconnect_exhausted', closeEvent);
+      return;
+    }
+    // An open circuit holds every attempt back for the cooldown, even immediate codes
+    const interval =
+      this.circuitBreakerHandler.recordFailure() ??
+      (closeEvent && immediateCodes.includes(closeEvent.code) ? 0 : this.getReconnectInterval());
+    if (interval === null) {
+      this.fail('backoff_stopped', closeEvent);
+      return;
     }
+    this.transition('reconnecting', reason);
+    this.scheduleReconnect(interval);
   }
 
-  close(code?: number, reason?: string): void {
-    this.state.isManualClose = true;
-    if (this.state.reconnectTimer) {
-      clearTimeout(this.state.reconnectTimer);
-      this.state.reconnectTimer = null;
+  /**
+   * Give up reconnecting and report why through a failed event
+   */
+  private fail(reason: string, closeEvent: CloseInfo | null): void {
+    this.transition('failed', reason);
+    this.eventHandler.emit(
+      createEvent('failed', {
+        reason,
+        attempts: this.state.reconnectCount,
+        closeEvent,
+      })
+    );
+  }
+
+  /**
+   * Delay before the next reconnect attempt, or null when a custom backoff
+   * function asked to stop reconnecting
+   */
+  private getReconnectInterval(): number | null {
+    const { interval, backoff, maxInterval, jitter } = this.opts.reconnect;
+    if (typeof backoff === 'function') {
+      const delay = backoff(
+        this.state.reconnectCount + 1,
+        this.state.lastError,
+        this.state.lastClose
+      );
+      return delay === null ? null : Math.max(0, delay);
     }
-    if (this.state.ws) {
-      this.state.ws.close(code, reason);
-      this.state.ws = null;
+    return calculateReconnectInterval(
+      this.state.reconnectCount,
+      interval,
+      backoff,
+      maxInterval,
+      jitter,
+      this.state.lastReconnectInterval ?? undefined
+    );
+  }
+
+  private transition(to: ConnectionState, reason: string): void {
+    const from = this.state.connectionState;
+    if (!CONNECTION_STATE_TRANSITIONS[from].includes(to)) {
+      throw new Error(`Invalid state transition: ${from} → ${to}`);
     }
-    if (this.state.abortController) {
-      this.state.abortController.abort();
-      this.state.abortController = null;
+    this.state.connectionState = to;
+    this.eventHandler.emit(createEvent('stateChange', { from, to, reason }));
+    // Event iterators are woken by the stateChange event itself; wake message
+    // iterators too so they can finish when the socket closes
+    this.state.messageSubscribers.forEach(subscriber => notifyResolvers(subscriber.resolvers));
+  }
+
+  private handleHeartbeatTimeout(): void {
+    const ws = this.state.ws;
+    if (!ws) {
+      return;
+    }
+
+    // Detach handlers first: a dead link may take minutes to report onclose,
+    // so we close locally and reconnect without waiting for it
+    this.detachSocket(ws);
+    this.state.ws = null;
+    ws.close();
+
+    this.handleClose(1006, 'Heartbeat timeout', false, 'heartbeat');
+  }
+
+  /**
+   * Abort the attempt if the handshake has not completed within connectTimeout
+   */
+  private startConnectTimer(ws: WebSocketLike): void {
+    const timeout = this.opts.connectTimeout;
+    if (timeout <= 0) {
+      return;
     }
-    this.state.messageQueue = [];
+    this.state.connectTimer = setTimeout(() => {
+      this.state.connectTimer = null;
+      if (this.state.ws !== ws) {
+        return;
+      }
+      this.detachSocket(ws);
+      this.state.ws = null;
+      ws.close();
+      this.handleConnectError(new Error(`Connection timed out after ${timeout}ms`), 'timeout');
+    }, timeout);
+  }
+
+  private clearConnectTimer(): void {
+    if (this.state.connectTimer) {
+      clearTimeout(this.state.connectTimer);
+      this.state.connectTimer = null;
+    }
+  }
+
+  private detachSocket(ws: WebSocketLike): void {
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
   }
 }
@@ -0,0 +1,185 @@
+import type {
+  EndpointState,
+  InternalSocketState,
+  NormalizedSocketOptions,
+  WebSocketLike,
+} from '../types.js';
+import { createEvent, calculateReconnectInterval } from '../utils.js';
+import { EventHandler } from './event-handler.js';
+import { TransportHandler } from './transport-handler.js';
+
+/**
+ * Handles endpoint selection, per-endpoint backoff, and primary probing when
+ * SocketOptions.url is a list of URLs
+ */
+export class EndpointHandler<Incoming> {
+  private onPrimaryAvailable: (() => void) | null = null;
+
+  constructor(
+    private state: InternalSocketState<Incoming>,
+    private opts: NormalizedSocketOptions,
+    private eventHandler: EventHandler<Incoming>,
+    private transportHandler: TransportHandler<Incoming>
+  ) {
+    if (Array.isArray(this.opts.url)) {
+      this.state.endpoints = this.opts.url.map(url => ({ url, failures: 0, retryAt: 0 }));
+    }
+  }
+
+  /**
+   * Pick the endpoint for the next connection attempt
+   *
+   * Endpoints still backing off are skipped while another one is available;
+   * if all are backing off, the one that recovers first is used.
+   *
+   * @returns URL of the selected endpoint
+   */
+  select(): string {
+    const endpoints = this.state.endpoints;
+    const now = Date.now();
+    const order = this.candidateOrder();
+    const index =
+      order.find(i => endpoints[i].retryAt <= now) ??
+      order.reduce((best, i) => (endpoints[i].retryAt < endpoints[best].retryAt ? i : best));
+
+    const previous = this.state.activeEndpoint;
+    this.state.activeEndpoint = index;
+    if (previous !== null && previous !== index) {
+      this.eventHandler.emit(
+        createEvent('failover', {
+          from: endpoints[previous].url,
+          to: endpoints[index].url,
+        })
+      );
+    }
+    return endpoints[index].url;
+  }
+
+  reportSuccess(): void {
+    const endpoint = this.currentEndpoint();
+    if (endpoint) {
+      endpoint.failures = 0;
+      endpoint.retryAt = 0;
+    }
+  }
+
+  reportFailure(): void {
+    const endpoint = this.currentEndpoint();
+    if (!endpoint) {
+      return;
+    }
+    // Back off one step further than the reconnect delay so that the next
+    // attempt prefers another endpoint. Custom backoff functions only drive
+    // the reconnect delay, so endpoints fall back to exponential backoff.
+    const { interval, backoff, maxInterval, jitter } = this.opts.reconnect;
+    endpoint.retryAt =
+      Date.now() +
+      calculateReconnectInterval(
+        endpoint.failures + 1,
+        interval,
+        typeof backoff === 'function' ? 'exponential' : backoff,
+        maxInterval,
+        jitter
+      );
+    endpoint.failures++;
+  }
+
+  /**
+   * Periodically probe the primary endpoint while connected to a fallback
+   *
+   * Only applies to the 'priority' strategy. The probe opens a throwaway
+   * connection to the primary URL and calls onPrimaryAvailable once it opens.
+   */
+  startProbe(onPrimaryAvailable: () => void): void {
+    this.stopProbe();
+    if (
+      this.opts.failover.strategy !== 'priority' ||
+      (this.state.activeEndpoint ?? 0) === 0 ||
+      this.opts.failover.probeInterval <= 0
+    ) {
+      return;
+    }
+
+    this.onPrimaryAvailable = onPrimaryAvailable;
+    this.state.probeTimer = setTimeout(() => this.probe(), this.opts.failover.probeInterval);
+  }
+
+  stopProbe(): void {
+    if (this.state.probeTimer) {
+      clearTimeout(this.state.probeTimer);
+      this.state.probeTimer = null;
+    }
+    if (this.state.probeSocket) {
+      const probe = this.state.probeSocket;
+      probe.onopen = null;
+      probe.onclose = null;
+      probe.onerror = null;
+      probe.close();
+      this.state.probeSocket = null;
+    }
+    this.onPrimaryAvailable = null;
+  }
+
+  private probe(): void {
+    this.state.probeTimer = null;
+    const onPrimaryAvailable = this.onPrimaryAvailable;
+    if (!onPrimaryAvailable) {
+      return;
+    }
+
+    const retry = () => {
+      this.state.probeSocket = null;
+      this.startProbe(onPrimaryAvailable);
+    };
+
+    let probe: WebSocketLike;
+    try {
+      probe = this.transportHandler.create(this.state.endpoints[0].url, this.opts.protocols);
+    } catch {
+      retry();
+      return;
+    }
+
+    this.state.probeSocket = probe;
+    probe.onopen = () => {
+      this.stopProbe();
+      const primary = this.state.endpoints[0];
+      primary.failures = 0;
+      primary.retryAt = 0;
+      onPrimaryAvailable();
+    };
+    probe.onerror = null;
+    probe.onclose = retry;
+  }
+
+  private currentEndpoint(): EndpointState | undefined {
+    return this.state.activeEndpoint === null
+      ? undefined
+      : this.state.endpoints[this.state.activeEndpoint];
+  }
+
+  private candidateOrder(): number[] {
+    const count = this.state.endpoints.length;
+    const indices = Array.from({ length: count }, (_, i) => i);
+
+    switch (this.opts.failover.strategy) {
+      case 'round-robin': {
+        // Stay on a healthy endpoint, move past one that just failed
+        const active = this.state.activeEndpoint;
+        const start =
+          active === null
+            ? 0
+            : (active + (this.state.endpoints[active].failures > 0 ? 1 : 0)) % count;
+        return indices.map(i => (start + i) % count);
+      }
+      case 'random':
+        for (let i = count - 1; i > 0; i--) {
+          const j = Math.floor(Math.random() * (i + 1));
+          [indices[i], indices[j]] = [indices[j], indices[i]];
+        }
+        return indices;
+      default:
+        return indices;
+    }
+  }
+}
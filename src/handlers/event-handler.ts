@@ -1,5 +1,6 @@
-import type { InternalSocketState, SocketEvent } from '../types.js';
+import type { InternalSocketState, SocketEvent, SocketEventType, WaitOptions } from '../types.js';
 import { MAX_RECENT_EVENTS } from '../constants.js';
+import { acceptsEvent, notifyResolvers } from '../utils.js';
 
 /**
  * Handles event emission and queue management
@@ -17,15 +18,16 @@ export class EventHandler<Incoming> {
       }
     });
 
-    // Queue events for iterators
-    if (this.state.activeEventIterators > 0) {
-      // Active iterators exist - add to queue and notify
-      this.state.eventQueue.push(event);
-      // Notify waiting iterators immediately
-      // Copy the set to avoid issues if new resolvers are added during iteration
-      const resolvers = Array.from(this.state.eventResolvers);
-      this.state.eventResolvers.clear();
-      resolvers.forEach(resolve => resolve());
+    // Fan out events to every active iterator that accepts them
+    if (this.state.eventSubscribers.size > 0) {
+      this.state.eventSubscribers.forEach(subscriber => {
+        if (!acceptsEvent(subscriber, event)) {
+          return;
+        }
+        subscriber.buffer.push(event);
+        // Notify waiting iterator immediately
+        notifyResolvers(subscriber.resolvers);
+      });
       return;
     }
 
@@ -36,4 +38,84 @@ export class EventHandler<Incoming> {
       this.state.eventQueue.shift(); // Remove oldest event
     }
   }
+
+  /**
+   * Wait for the next event of the given type
+   *
+   * Registers a temporary event callback that is removed once the promise
+   * settles. Rejects on timeout, abort, or when the connection state moves to
+   * 'failed' (reconnect attempts exhausted) or 'disposed'.
+   */
+  waitFor(
+    type: SocketEventType,
+    predicate?: (event: SocketEvent) => boolean,
+    options?: WaitOptions
+  ): Promise<SocketEvent> {
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new Error('Wait aborted'));
+    }
+
+    const timeout = options?.timeout;
+
+    return new Promise<SocketEvent>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const cleanup = () => {
+        this.state.eventCallbacks.delete(listener);
+        if (timer !== null) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        signal?.removeEventListener('abort', abortHandler);
+      };
+
+      const abortHandler = () => {
+        cleanup();
+        reject(signal?.reason ?? new Error('Wait aborted'));
+      };
+
+      const listener = (event: SocketEvent) => {
+        let matched: boolean;
+        try {
+          matched = event.type === type && (predicate?.(event) ?? true);
+        } catch (error) {
+          cleanup();
+          reject(error);
+          return;
+        }
+
+        if (matched) {
+          cleanup();
+          resolve(event);
+        } else if (
+          event.type === 'stateChange' &&
+          event.meta?.to === 'failed' &&
+          // The failed event is emitted right after this transition
+          type !== 'failed'
+        ) {
+          cleanup();
+          reject(new Error('Reconnect attempts exhausted'));
+        } else if (event.type === 'stateChange' && event.meta?.to === 'closed') {
+          // No more events follow until connect() is called again
+          cleanup();
+          reject(new Error('Socket closed'));
+        } else if (event.type === 'stateChange' && event.meta?.to === 'disposed') {
+          cleanup();
+          reject(new Error('Socket disposed'));
+        }
+      };
+
+      this.state.eventCallbacks.add(listener);
+
+      if (timeout !== undefined && Number.isFinite(timeout)) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new Error(`Timed out waiting for ${type} after ${timeout}ms`));
+        }, timeout);
+      }
+
+      signal?.addEventListener('abort', abortHandler);
+    });
+  }
 }
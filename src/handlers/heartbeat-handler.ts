@@ -0,0 +1,197 @@
+import type {
+  Codec,
+  InternalSocketState,
+  LatencyStats,
+  NormalizedSocketOptions,
+  WaitOptions,
+  WebSocketData,
+  WebSocketLike,
+} from '../types.js';
+import { createEvent, isPromiseLike, calculateLatencyStats } from '../utils.js';
+import { LATENCY_SAMPLE_SIZE, READY_STATE_OPEN } from '../constants.js';
+import { resolveCodec } from '../codecs.js';
+import { EventHandler } from './event-handler.js';
+
+/**
+ * Handles application-level ping/pong to detect dead connections and measure latency
+ *
+ * Round-trip times of the current connection are kept for latency statistics;
+ * they are cleared whenever the heartbeat stops or restarts.
+ */
+export class HeartbeatHandler<Incoming> {
+  private onTimeout: (() => void) | null = null;
+  private codec: Codec;
+
+  constructor(
+    private state: InternalSocketState<Incoming>,
+    private opts: NormalizedSocketOptions,
+    private eventHandler: EventHandler<Incoming>
+  ) {
+    this.codec = resolveCodec(this.opts.codec);
+  }
+
+  start(onTimeout: () => void): void {
+    this.stop();
+    if (!this.opts.heartbeat.enabled) {
+      return;
+    }
+
+    this.onTimeout = onTimeout;
+    this.schedulePing();
+  }
+
+  stop(): void {
+    if (this.state.heartbeatTimer) {
+      clearTimeout(this.state.heartbeatTimer);
+      this.state.heartbeatTimer = null;
+    }
+    if (this.state.heartbeatTimeoutTimer) {
+      clearTimeout(this.state.heartbeatTimeoutTimer);
+      this.state.heartbeatTimeoutTimer = null;
+    }
+    this.state.lastPingTs = null;
+    this.state.rttSamples = [];
+    this.onTimeout = null;
+  }
+
+  get latency(): LatencyStats | null {
+    return this.state.rttSamples.length > 0 ? calculateLatencyStats(this.state.rttSamples) : null;
+  }
+
+  /**
+   * Send a ping outside the heartbeat schedule and wait for its pong
+   *
+   * Pongs carry no id, so a ping already in flight is not repeated and its
+   * pong answers both. Works while the heartbeat is disabled too.
+   *
+   * @returns Round-trip time in milliseconds
+   */
+  async ping(options?: WaitOptions): Promise<number> {
+    const ws = this.state.ws;
+    if (!ws || ws.readyState !== READY_STATE_OPEN) {
+      throw new Error('Socket is not open');
+    }
+    if (this.state.lastPingTs === null) {
+      this.sendPing(ws);
+    }
+    const sentAt = this.state.lastPingTs;
+
+    try {
+      const event = await this.eventHandler.waitFor('heartbeat', undefined, {
+        timeout: options?.timeout ?? this.opts.heartbeat.timeout,
+        signal: options?.signal,
+      });
+      return event.meta?.rtt as number;
+    } catch (error) {
+      // Let the next ping() send again; a heartbeat ping is left to its own timeout
+      if (this.state.lastPingTs === sentAt && !this.state.heartbeatTimeoutTimer) {
+        this.state.lastPingTs = null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check an incoming raw message for a pong reply
+   *
+   * @returns true if the message was a pong and must not be delivered to consumers
+   */
+  handleMessage(data: WebSocketData): boolean {
+    const { enabled, isPong } = this.opts.heartbeat;
+    // Without the heartbeat, only a pong answering ping() is consumed
+    if ((!enabled && this.state.lastPingTs === null) || !isPong(data)) {
+      return false;
+    }
+
+    if (this.state.heartbeatTimeoutTimer) {
+      clearTimeout(this.state.heartbeatTimeoutTimer);
+      this.state.heartbeatTimeoutTimer = null;
+    }
+
+    const rtt = this.state.lastPingTs !== null ? Date.now() - this.state.lastPingTs : undefined;
+    this.state.lastPingTs = null;
+    this.eventHandler.emit(createEvent('heartbeat', { rtt }));
+    if (rtt !== undefined) {
+      this.recordRtt(rtt);
+    }
+
+    if (this.onTimeout && !this.state.heartbeatTimer) {
+      this.schedulePing();
+    }
+    return true;
+  }
+
+  private schedulePing(): void {
+    this.state.heartbeatTimer = setTimeout(() => {
+      this.state.heartbeatTimer = null;
+      this.heartbeat();
+    }, this.opts.heartbeat.interval);
+  }
+
+  private heartbeat(): void {
+    const ws = this.state.ws;
+    if (!ws || ws.readyState !== READY_STATE_OPEN) {
+      return;
+    }
+
+    // A ping() still waiting for its pong doubles as this heartbeat
+    if (this.state.lastPingTs === null) {
+      this.sendPing(ws);
+    }
+
+    this.state.heartbeatTimeoutTimer = setTimeout(() => {
+      this.state.heartbeatTimeoutTimer = null;
+      const onTimeout = this.onTimeout;
+      this.eventHandler.emit(
+        createEvent('timeout', {
+          reason: 'heartbeat',
+          timeout: this.opts.heartbeat.timeout,
+        })
+      );
+      this.stop();
+      onTimeout?.();
+    }, this.opts.heartbeat.timeout);
+  }
+
+  private sendPing(ws: WebSocketLike): void {
+    const { message } = this.opts.heartbeat;
+    const payload = typeof message === 'function' ? message() : message;
+    this.state.lastPingTs = Date.now();
+
+    // Pings are encoded by the configured codec, like every other outgoing message
+    let frame: WebSocketData | Promise<WebSocketData>;
+    try {
+      frame = this.codec.encode(payload);
+    } catch (error) {
+      this.emitEncodeError(error);
+      return;
+    }
+
+    if (!isPromiseLike(frame)) {
+      ws.send(frame);
+      return;
+    }
+    frame.then(
+      encoded => {
+        // The connection may have closed while the ping was being encoded
+        if (this.state.ws === ws && ws.readyState === READY_STATE_OPEN) {
+          ws.send(encoded);
+        }
+      },
+      error => this.emitEncodeError(error)
+    );
+  }
+
+  private emitEncodeError(error: unknown): void {
+    this.eventHandler.emit(createEvent('error', { error, reason: 'encode' }));
+  }
+
+  private recordRtt(rtt: number): void {
+    const samples = this.state.rttSamples;
+    samples.push(rtt);
+    if (samples.length > LATENCY_SAMPLE_SIZE) {
+      samples.shift();
+    }
+    this.eventHandler.emit(createEvent('latency', { ...calculateLatencyStats(samples) }));
+  }
+}
@@ -1,41 +1,104 @@
-import type { InternalSocketState, NormalizedSocketOptions } from '../types.js';
+import type {
+  Codec,
+  InternalSocketState,
+  MessageSubscriber,
+  NormalizedSocketOptions,
+  SendOptions,
+  SendReceipt,
+  StandardSchemaResult,
+  ValidationDirection,
+  WebSocketData,
+} from '../types.js';
 import {
-  parseMessage,
-  serializeMessage,
+  isPromiseLike,
+  validateMessage,
   handleBufferOverflow,
   createEvent,
   createDroppedEvent,
+  notifyResolvers,
 } from '../utils.js';
+import { READY_STATE_OPEN } from '../constants.js';
+import { resolveCodec } from '../codecs.js';
+import { ValidationError } from '../errors.js';
 import { EventHandler } from './event-handler.js';
 
+// Marks a message rejected by validation, which is dropped instead of delivered or sent
+const INVALID = Symbol('invalid');
+type Checked<T> = T | typeof INVALID;
+
+// Outcome of an async decode/encode, captured as soon as it starts
+type Settled<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+// Handle the result right away so a failure waiting behind an earlier async
+// message does not count as an unhandled rejection
+function settle<T>(result: T | PromiseLike<T>): Promise<Settled<T>> {
+  return Promise.resolve(result).then(
+    value => ({ ok: true, value }),
+    error => ({ ok: false, error })
+  );
+}
+
 /**
  * Handles message receiving, sending, and buffering
  */
 export class MessageHandler<Incoming, Outgoing> {
+  private codec: Codec<Incoming, Outgoing>;
+  // Tails of in-flight async decode/encode chains, used to keep message order
+  private pendingDecode: Promise<void> | null = null;
+  private pendingEncode: Promise<void> | null = null;
+  // Bumped by discardQueue() so sends still being encoded are dropped too
+  private discards = 0;
+  // Receipts of send(data, options) calls still being encoded
+  private encoding = new Set<SendReceipt>();
+  // Async encode of sendAhead() frames; the queue is held until they are in front
+  private pendingAhead: Promise<void> | null = null;
+
   constructor(
     private state: InternalSocketState<Incoming>,
     private opts: NormalizedSocketOptions,
     private eventHandler: EventHandler<Incoming>
-  ) {}
+  ) {
+    this.codec = resolveCodec(this.opts.codec) as Codec<Incoming, Outgoing>;
+  }
 
-  receive(data: string): void {
-    // Parse JSON if possible, otherwise use string as-is
-    const parsed = parseMessage<Incoming>(data);
+  receive(data: WebSocketData): void {
+    let parsed: Checked<Incoming> | Promise<Checked<Incoming>>;
+    try {
+      parsed = this.parse(data);
+    } catch (error) {
+      this.emitCodecError('decode', error);
+      return;
+    }
 
-    // Emit received event
-    this.eventHandler.emit(
-      createEvent('received', {
-        message: parsed,
-      })
-    );
+    // Deliver synchronously unless this or an earlier decode/validation is async
+    if (!this.pendingDecode && !isPromiseLike(parsed)) {
+      if (parsed !== INVALID) {
+        this.deliver(parsed);
+      }
+      return;
+    }
 
-    // Handle callbacks and buffering
-    this.handleCallbacks(parsed);
-    this.bufferReceivedMessage(data);
+    const settled = settle(parsed);
+    const current: Promise<void> = (this.pendingDecode ?? Promise.resolve())
+      .then(() => settled)
+      .then(result => {
+        if (!result.ok) {
+          this.emitCodecError('decode', result.error);
+        } else if (result.value !== INVALID) {
+          this.deliver(result.value);
+        }
+      })
+      .catch(error => this.eventHandler.emit(createEvent('error', { error })))
+      .finally(() => {
+        if (this.pendingDecode === current) {
+          this.pendingDecode = null;
+        }
+      });
+    this.pendingDecode = current;
   }
 
   async receiveMessages(
-    messages: AsyncIterable<string>,
+    messages: AsyncIterable<WebSocketData>,
     options?: { signal?: AbortSignal }
   ): Promise<void> {
     const signal = options?.signal;
@@ -56,18 +119,108 @@ export class MessageHandler<Incoming, Outgoing> {
     }
   }
 
-  send(data: Outgoing): void {
-    const message = serializeMessage(data);
+  send(data: Outgoing, receipt?: SendReceipt): void {
+    const encoded = this.prepare(data, receipt);
 
-    // Try to send immediately if connected
-    if (this.state.ws && this.state.ws.readyState === WebSocket.OPEN) {
-      this.handleSendImmediately(message, data);
+    // Dispatch synchronously unless this or an earlier encode/validation is async
+    if (!this.pendingEncode && !isPromiseLike(encoded)) {
+      if (encoded !== INVALID) {
+        this.dispatch(encoded, data, receipt);
+      }
       return;
     }
 
-    // Buffer for later
-    const messageStr = typeof message === 'string' ? message : String(message);
-    this.queueSendMessage(messageStr);
+    const discards = this.discards;
+    if (receipt) {
+      this.encoding.add(receipt);
+    }
+    const settled = settle(encoded);
+    const current: Promise<void> = (this.pendingEncode ?? Promise.resolve())
+      .then(() => settled)
+      .then(result => {
+        if (!result.ok) {
+          this.emitCodecError('encode', result.error);
+          receipt?.reject(result.error);
+        } else if (result.value !== INVALID && discards === this.discards) {
+          this.dispatch(result.value, data, receipt);
+        }
+      })
+      .catch(error => {
+        // Send queue overflow with 'error' policy
+        this.eventHandler.emit(createEvent('error', { error }));
+        receipt?.reject(error);
+      })
+      .finally(() => {
+        if (receipt) {
+          this.encoding.delete(receipt);
+        }
+        if (this.pendingEncode === current) {
+          this.pendingEncode = null;
+        }
+      });
+    this.pendingEncode = current;
+  }
+
+  /**
+   * Send a message and resolve once its frame is written to the WebSocket
+   *
+   * Rejects when the message is invalid, fails to encode, is dropped by the send
+   * queue overflow policy, expires or is aborted while queued, or is discarded
+   * by close() or dispose().
+   */
+  sendTracked(data: Outgoing, options?: SendOptions): Promise<void> {
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new Error('Send aborted'));
+    }
+
+    const timeout = options?.timeout ?? Infinity;
+
+    return new Promise<void>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const cleanup = () => {
+        receipt.settled = true;
+        if (timer !== null) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        signal?.removeEventListener('abort', abortHandler);
+      };
+
+      // Expired and aborted messages leave the queue so they are never written
+      const abandon = (error: unknown) => {
+        this.unqueue(receipt);
+        receipt.reject(error);
+      };
+
+      const abortHandler = () => abandon(signal?.reason ?? new Error('Send aborted'));
+
+      const receipt: SendReceipt = {
+        resolve: () => {
+          cleanup();
+          resolve();
+        },
+        reject: error => {
+          cleanup();
+          reject(error);
+        },
+        settled: false,
+      };
+
+      if (Number.isFinite(timeout)) {
+        timer = setTimeout(() => abandon(new Error(`Send timed out after ${timeout}ms`)), timeout);
+      }
+
+      signal?.addEventListener('abort', abortHandler);
+
+      try {
+        this.send(data, receipt);
+      } catch (error) {
+        // Encode errors, ValidationError and send queue overflow with 'error' policy
+        receipt.reject(error);
+      }
+    });
   }
 
   async sendMessages(
@@ -92,14 +245,61 @@ export class MessageHandler<Incoming, Outgoing> {
     }
   }
 
+  /**
+   * Put messages in front of the send queue and flush it
+   *
+   * Used for subscriptions replayed on open, which must reach the server before
+   * data queued while disconnected. With an async codec or validator, the queue
+   * and any new send() calls wait until the messages are encoded.
+   */
+  sendAhead(messages: Outgoing[]): void {
+    const prepared = messages.map(data => {
+      try {
+        return this.prepare(data);
+      } catch (error) {
+        this.emitCodecError('encode', error);
+        return INVALID;
+      }
+    });
+
+    if (!prepared.some(isPromiseLike)) {
+      this.enqueueAhead(prepared as Checked<WebSocketData>[]);
+      this.flushQueue();
+      return;
+    }
+
+    const ws = this.state.ws;
+    const current: Promise<void> = Promise.all(
+      prepared.map(result =>
+        Promise.resolve(result).catch((error): typeof INVALID => {
+          this.emitCodecError('encode', error);
+          return INVALID;
+        })
+      )
+    ).then(frames => {
+      // Discarded by close() or dispose() in the meantime
+      if (this.pendingAhead !== current) {
+        return;
+      }
+      this.pendingAhead = null;
+      // A lost connection replays its subscriptions on the next open instead
+      if (this.state.ws === ws) {
+        this.enqueueAhead(frames);
+      }
+      this.flushQueue();
+    });
+    this.pendingAhead = current;
+  }
+
   flushQueue(): void {
-    if (!this.state.ws || this.state.ws.readyState !== WebSocket.OPEN) {
+    if (!this.state.ws || this.state.ws.readyState !== READY_STATE_OPEN || this.pendingAhead) {
       return;
     }
 
     while (this.state.messageQueue.length > 0) {
       const message = this.state.messageQueue.shift();
-      if (message) {
+      const receipt = this.state.sendReceipts.shift();
+      if (message !== undefined) {
         this.state.ws.send(message);
         // Emit sent event for queued messages
         this.eventHandler.emit(
@@ -107,8 +307,202 @@ export class MessageHandler<Incoming, Outgoing> {
             message: message,
           })
         );
+        receipt?.resolve();
+      }
+    }
+  }
+
+  /**
+   * Take back a message that was not written yet, such as the frame of a rejected request
+   */
+  withdraw(receipt: SendReceipt): void {
+    // A settled receipt is skipped by dispatch() if it is still being encoded
+    receipt.settled = true;
+    this.unqueue(receipt);
+  }
+
+  /**
+   * Empty the send queue and drop messages still being encoded, rejecting the
+   * Promises of their send(data, options) calls
+   */
+  discardQueue(error: Error): void {
+    const receipts = [...this.state.sendReceipts, ...this.encoding];
+    this.discards++;
+    this.encoding.clear();
+    this.pendingAhead = null;
+    this.state.messageQueue = [];
+    this.state.sendReceipts = [];
+    receipts.forEach(receipt => receipt?.reject(error));
+  }
+
+  /**
+   * Decode a frame and run it through ValidateConfig.incoming
+   */
+  private parse(data: WebSocketData): Checked<Incoming> | Promise<Checked<Incoming>> {
+    const decoded = this.codec.decode(data);
+    const validator = this.opts.validate.incoming;
+    if (!validator) {
+      return decoded;
+    }
+
+    const check = (message: Incoming): Checked<Incoming> | Promise<Checked<Incoming>> => {
+      const result = validateMessage(validator, message);
+      return isPromiseLike(result)
+        ? result.then(resolved => this.accept<Incoming>('incoming', data, resolved))
+        : this.accept<Incoming>('incoming', data, result);
+    };
+    return isPromiseLike(decoded) ? Promise.resolve(decoded).then(check) : check(decoded);
+  }
+
+  /**
+   * Run a message through ValidateConfig.outgoing and encode it
+   */
+  private prepare(
+    data: Outgoing,
+    receipt?: SendReceipt
+  ): Checked<WebSocketData> | Promise<Checked<WebSocketData>> {
+    const validator = this.opts.validate.outgoing;
+    if (!validator) {
+      return this.codec.encode(data);
+    }
+
+    const result = validateMessage(validator, data);
+    if (isPromiseLike(result)) {
+      return result.then(resolved => {
+        const message = this.accept<Outgoing>('outgoing', data, resolved);
+        if (message === INVALID) {
+          if (resolved.issues) {
+            receipt?.reject(new ValidationError('outgoing', resolved.issues));
+          }
+          return INVALID;
+        }
+        return this.codec.encode(message);
+      });
+    }
+
+    const message = this.accept<Outgoing>('outgoing', data, result);
+    if (message === INVALID) {
+      // A send() Promise always rejects, since the message will never be written
+      if ((this.opts.validate.rejectInvalidSend || receipt) && result.issues) {
+        throw new ValidationError('outgoing', result.issues);
+      }
+      return INVALID;
+    }
+    return this.codec.encode(message);
+  }
+
+  /**
+   * Unwrap a validation result, emitting an invalid event with the raw payload on failure
+   */
+  private accept<T>(
+    direction: ValidationDirection,
+    data: unknown,
+    result: StandardSchemaResult
+  ): Checked<T> {
+    if (result.issues) {
+      this.eventHandler.emit(createEvent('invalid', { direction, data, issues: result.issues }));
+      return INVALID;
+    }
+    // Schemas may transform the message (defaults, coercion); use their output
+    return result.value as T;
+  }
+
+  private deliver(parsed: Incoming): void {
+    // Emit received event
+    this.eventHandler.emit(
+      createEvent('received', {
+        message: parsed,
+      })
+    );
+
+    // Replies to pending request() calls are consumed unless configured otherwise
+    if (this.settleRequest(parsed) && !this.opts.request.deliverReplies) {
+      return;
+    }
+
+    const topic =
+      this.state.subscriptions.size > 0 ? this.opts.subscriptions.topicOf(parsed) : undefined;
+    const type = this.typeOf(parsed);
+    this.routeToTopic(topic, parsed);
+    this.routeToType(type, parsed);
+
+    // Handle callbacks and buffering
+    this.handleCallbacks(parsed);
+    this.bufferReceivedMessage(parsed, topic, type);
+  }
+
+  private dispatch(message: WebSocketData, data: Outgoing, receipt?: SendReceipt): void {
+    // Expired or aborted while an earlier async encode was pending
+    if (receipt?.settled) {
+      return;
+    }
+
+    // Try to send immediately if connected, unless sendAhead() holds the queue
+    if (this.state.ws && this.state.ws.readyState === READY_STATE_OPEN && !this.pendingAhead) {
+      this.handleSendImmediately(message, data);
+      receipt?.resolve();
+      return;
+    }
+
+    // Buffer for later (encoded frames are queued intact)
+    this.queueSendMessage(message, receipt);
+  }
+
+  private unqueue(receipt: SendReceipt): void {
+    const index = this.state.sendReceipts.indexOf(receipt);
+    if (index !== -1) {
+      this.state.messageQueue.splice(index, 1);
+      this.state.sendReceipts.splice(index, 1);
+    }
+  }
+
+  private emitCodecError(operation: 'encode' | 'decode', error: unknown): void {
+    this.eventHandler.emit(createEvent('error', { error, reason: operation }));
+  }
+
+  private settleRequest(parsed: Incoming): boolean {
+    if (this.state.pendingRequests.size === 0 || typeof parsed !== 'object' || parsed === null) {
+      return false;
+    }
+
+    const id = (parsed as Record<string, unknown>)[this.opts.request.idKey];
+    const pending = this.state.pendingRequests.get(id);
+    if (!pending) {
+      return false;
+    }
+
+    pending.resolve(parsed);
+    return true;
+  }
+
+  private routeToTopic(topic: string | undefined, parsed: Incoming): void {
+    const subscription = topic === undefined ? undefined : this.state.subscriptions.get(topic);
+    subscription?.handlers.forEach(handler => {
+      try {
+        handler(parsed);
+      } catch (error) {
+        console.error('Error in subscription handler:', error);
       }
+    });
+  }
+
+  private typeOf(parsed: Incoming): unknown {
+    if (typeof parsed !== 'object' || parsed === null) {
+      return undefined;
     }
+    return (parsed as Record<string, unknown>)[this.opts.router.key];
+  }
+
+  private routeToType(type: unknown, parsed: Incoming): void {
+    // Messages without an on() handler for their type go to onUnknown() handlers
+    const handlers = this.state.routeCallbacks.get(type) ?? this.state.unknownCallbacks;
+    handlers.forEach(handler => {
+      try {
+        handler(parsed);
+      } catch (error) {
+        console.error('Error in route handler:', error);
+      }
+    });
   }
 
   private handleCallbacks(parsed: Incoming): void {
@@ -122,78 +516,77 @@ export class MessageHandler<Incoming, Outgoing> {
     });
   }
 
-  private bufferReceivedMessage(data: string): void {
+  private bufferReceivedMessage(data: Incoming, topic: string | undefined, type: unknown): void {
     // Only buffer if there are active iterators consuming messages
-    if (this.state.activeMessageIterators === 0) {
+    if (this.state.messageSubscribers.size === 0) {
       return;
     }
 
-    const overflowResult = handleBufferOverflow(
-      this.opts.buffer.receive.overflow,
-      this.state.messageBuffer,
-      data,
-      this.opts.buffer.receive.size,
-      'receive'
-    );
+    // Fan out to every iterator so each consumer sees every message; an 'error'
+    // overflow in one iterator must not keep the message from the others
+    let overflowed = false;
+    this.state.messageSubscribers.forEach(subscriber => {
+      if (subscriber.topic !== undefined && subscriber.topic !== topic) {
+        return;
+      }
+      if (subscriber.types !== undefined && !subscriber.types.has(type)) {
+        return;
+      }
+      if (!this.passesFilter(subscriber, data)) {
+        return;
+      }
+      if (!this.bufferForSubscriber(subscriber, data)) {
+        overflowed = true;
+      }
+    });
+
+    if (overflowed) {
+      throw new Error('Message buffer overflow');
+    }
+  }
+
+  private passesFilter(subscriber: MessageSubscriber<Incoming>, data: Incoming): boolean {
+    try {
+      return subscriber.filter?.(data) ?? true;
+    } catch (error) {
+      console.error('Error in messages() filter:', error);
+      return false;
+    }
+  }
+
+  private bufferForSubscriber(subscriber: MessageSubscriber<Incoming>, data: Incoming): boolean {
+    const { overflow, size } = subscriber.config;
+    const overflowResult = handleBufferOverflow(overflow, subscriber.buffer, data, size, 'receive');
 
     if (overflowResult.action === 'error') {
       this.eventHandler.emit(
-        createDroppedEvent(
-          'buffer_overflow',
-          this.opts.buffer.receive.overflow,
-          undefined,
-          this.opts.buffer.receive.size,
-          'receive'
-        )
+        createDroppedEvent('buffer_overflow', overflow, undefined, size, 'receive')
       );
-      throw new Error('Message buffer overflow');
+      return false;
     }
 
     if (overflowResult.action === 'drop_newest') {
       this.eventHandler.emit(
-        createDroppedEvent(
-          'buffer_full',
-          this.opts.buffer.receive.overflow,
-          overflowResult.dropped,
-          this.opts.buffer.receive.size,
-          'receive'
-        )
+        createDroppedEvent('buffer_full', overflow, overflowResult.dropped, size, 'receive')
       );
-      return;
+      return true;
     }
 
     if (overflowResult.action === 'drop_oldest') {
       this.eventHandler.emit(
-        createDroppedEvent(
-          'buffer_full',
-          this.opts.buffer.receive.overflow,
-          overflowResult.dropped,
-          this.opts.buffer.receive.size,
-          'receive'
-        )
+        createDroppedEvent('buffer_full', overflow, overflowResult.dropped, size, 'receive')
       );
-      // drop_oldest already removed oldest item, now add new one
-      this.state.messageBuffer.push(data);
-      // Notify waiting iterators immediately
-      const resolvers = Array.from(this.state.messageResolvers);
-      this.state.messageResolvers.clear();
-      resolvers.forEach(resolve => resolve());
-      return;
     }
 
-    // Normal case: add to buffer
-    if (overflowResult.action === 'add') {
-      this.state.messageBuffer.push(data);
-      // Notify waiting iterators immediately
-      // Copy the set to avoid issues if new resolvers are added during iteration
-      const resolvers = Array.from(this.state.messageResolvers);
-      this.state.messageResolvers.clear();
-      resolvers.forEach(resolve => resolve());
-    }
+    // drop_oldest already removed oldest item, now add new one
+    subscriber.buffer.push(data);
+    // Notify waiting iterator immediately
+    notifyResolvers(subscriber.resolvers);
+    return true;
   }
 
-  private handleSendImmediately(message: string | ArrayBuffer | Blob, data: Outgoing): void {
-    if (!this.state.ws || this.state.ws.readyState !== WebSocket.OPEN) {
+  private handleSendImmediately(message: WebSocketData, data: Outgoing): void {
+    if (!this.state.ws || this.state.ws.readyState !== READY_STATE_OPEN) {
       return;
     }
 
@@ -206,11 +599,11 @@ export class MessageHandler<Incoming, Outgoing> {
     );
   }
 
-  private queueSendMessage(messageStr: string): void {
+  private queueSendMessage(message: WebSocketData, receipt?: SendReceipt): void {
     const overflowResult = handleBufferOverflow(
       this.opts.buffer.send.overflow,
       this.state.messageQueue,
-      messageStr,
+      message,
       this.opts.buffer.send.size,
       'send'
     );
@@ -238,6 +631,7 @@ export class MessageHandler<Incoming, Outgoing> {
           'send'
         )
       );
+      receipt?.reject(new Error('Message dropped: send queue full'));
       return;
     }
 
@@ -251,13 +645,27 @@ export class MessageHandler<Incoming, Outgoing> {
           'send'
         )
       );
+      this.state.sendReceipts.shift()?.reject(new Error('Message dropped: send queue full'));
       // drop_oldest already removed oldest item, now add new one
-      this.state.messageQueue.push(messageStr);
+      this.enqueue(message, receipt);
       return;
     }
 
     if (overflowResult.action === 'add') {
-      this.state.messageQueue.push(messageStr);
+      this.enqueue(message, receipt);
     }
   }
+
+  private enqueueAhead(frames: Checked<WebSocketData>[]): void {
+    const valid = frames.filter((frame): frame is WebSocketData => frame !== INVALID);
+    // Not subject to the send queue limit: they are flushed right away
+    this.state.messageQueue.unshift(...valid);
+    this.state.sendReceipts.unshift(...valid.map(() => undefined));
+  }
+
+  private enqueue(message: WebSocketData, receipt?: SendReceipt): void {
+    this.state.messageQueue.push(message);
+    // Assigned by index so sendReceipts stays aligned with messageQueue
+    this.state.sendReceipts[this.state.messageQueue.length - 1] = receipt;
+  }
 }
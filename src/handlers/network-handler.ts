@@ -0,0 +1,107 @@
+import type { InternalSocketState, NetworkChange, NormalizedSocketOptions } from '../types.js';
+import { createEvent } from '../utils.js';
+import { EventHandler } from './event-handler.js';
+
+/**
+ * Handles online/offline and page visibility awareness
+ *
+ * Reconnect attempts are held back while the environment reports offline and
+ * resume right away when it comes back. With hiddenTimeout, a page hidden for
+ * that long is disconnected until it becomes visible again.
+ */
+export class NetworkHandler<Incoming> {
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private state: InternalSocketState<Incoming>,
+    private opts: NormalizedSocketOptions,
+    private eventHandler: EventHandler<Incoming>
+  ) {}
+
+  /**
+   * Start listening to the environment
+   *
+   * @param onResume - Called when reconnecting may continue (back online, or visible after a hidden disconnect)
+   * @param onHidden - Called when the page stayed hidden for hiddenTimeout
+   */
+  start(onResume: () => void, onHidden: () => void): void {
+    this.stop();
+    if (!this.opts.network.enabled) {
+      return;
+    }
+
+    const { environment } = this.opts.network;
+    this.unsubscribe = environment.subscribe(change =>
+      this.handleChange(change, onResume, onHidden)
+    );
+    if (!environment.isVisible()) {
+      this.startHiddenTimer(onHidden);
+    }
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.clearHiddenTimer();
+  }
+
+  /**
+   * Whether a reconnect attempt may run now
+   */
+  canReconnect(): boolean {
+    if (!this.opts.network.enabled) {
+      return true;
+    }
+    return this.opts.network.environment.isOnline() && !this.state.hiddenSuspended;
+  }
+
+  private handleChange(change: NetworkChange, onResume: () => void, onHidden: () => void): void {
+    const { environment } = this.opts.network;
+    this.eventHandler.emit(
+      createEvent('network', {
+        online: environment.isOnline(),
+        visible: environment.isVisible(),
+      })
+    );
+
+    switch (change) {
+      // Going offline needs no action: scheduleReconnect() checks canReconnect()
+      case 'online':
+        if (this.canReconnect()) {
+          onResume();
+        }
+        break;
+      case 'hidden':
+        this.startHiddenTimer(onHidden);
+        break;
+      case 'visible':
+        this.clearHiddenTimer();
+        if (this.state.hiddenSuspended) {
+          this.state.hiddenSuspended = false;
+          if (this.canReconnect()) {
+            onResume();
+          }
+        }
+        break;
+    }
+  }
+
+  private startHiddenTimer(onHidden: () => void): void {
+    const timeout = this.opts.network.hiddenTimeout;
+    if (timeout <= 0 || this.state.hiddenTimer) {
+      return;
+    }
+    this.state.hiddenTimer = setTimeout(() => {
+      this.state.hiddenTimer = null;
+      this.state.hiddenSuspended = true;
+      onHidden();
+    }, timeout);
+  }
+
+  private clearHiddenTimer(): void {
+    if (this.state.hiddenTimer) {
+      clearTimeout(this.state.hiddenTimer);
+      this.state.hiddenTimer = null;
+    }
+  }
+}
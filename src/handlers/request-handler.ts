@@ -0,0 +1,97 @@
+import type {
+  InternalSocketState,
+  NormalizedSocketOptions,
+  RequestOptions,
+  SendReceipt,
+} from '../types.js';
+import { isBinaryData } from '../utils.js';
+import { MessageHandler } from './message-handler.js';
+
+/**
+ * Handles request/response correlation on top of MessageHandler.send
+ */
+export class RequestHandler<Incoming, Outgoing> {
+  constructor(
+    private state: InternalSocketState<Incoming>,
+    private opts: NormalizedSocketOptions,
+    private messageHandler: MessageHandler<Incoming, Outgoing>
+  ) {}
+
+  request<Response = Incoming>(data: Outgoing, options?: RequestOptions): Promise<Response> {
+    if (typeof data !== 'object' || data === null || isBinaryData(data)) {
+      return Promise.reject(new TypeError('Request payload must be an object'));
+    }
+
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new Error('Request aborted'));
+    }
+
+    const id = this.opts.request.generateId?.() ?? ++this.state.requestCounter;
+    const timeout = options?.timeout ?? this.opts.request.timeout;
+
+    return new Promise<Response>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      // Tracks the request frame through the send queue: a frame dropped by the
+      // overflow policy rejects the request, and a rejected request takes back
+      // its frame if it was not written yet, so the server never runs it
+      const delivery: SendReceipt = {
+        resolve: () => {},
+        reject: error => {
+          cleanup();
+          reject(error);
+        },
+        settled: false,
+      };
+
+      const cleanup = () => {
+        this.messageHandler.withdraw(delivery);
+        this.state.pendingRequests.delete(id);
+        if (timer !== null) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        signal?.removeEventListener('abort', abortHandler);
+      };
+
+      const abortHandler = () => {
+        cleanup();
+        reject(signal?.reason ?? new Error('Request aborted'));
+      };
+
+      this.state.pendingRequests.set(id, {
+        resolve: reply => {
+          cleanup();
+          resolve(reply as unknown as Response);
+        },
+        reject: error => {
+          cleanup();
+          reject(error);
+        },
+      });
+
+      if (Number.isFinite(timeout)) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new Error(`Request timed out after ${timeout}ms`));
+        }, timeout);
+      }
+
+      signal?.addEventListener('abort', abortHandler);
+
+      try {
+        this.messageHandler.send({ ...data, [this.opts.request.idKey]: id } as Outgoing, delivery);
+      } catch (error) {
+        // Send queue overflow with 'error' policy
+        cleanup();
+        reject(error);
+      }
+    });
+  }
+
+  rejectAll(error: Error): void {
+    // Copy the entries since rejecting removes them from the map
+    Array.from(this.state.pendingRequests.values()).forEach(pending => pending.reject(error));
+  }
+}
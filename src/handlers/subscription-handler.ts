@@ -0,0 +1,113 @@
+import type {
+  InternalSocketState,
+  NormalizedSocketOptions,
+  SubscribeOptions,
+  Subscription,
+} from '../types.js';
+import { messagesGenerator } from '../generators.js';
+import { MessageHandler } from './message-handler.js';
+
+/**
+ * Handles the topic subscription registry on top of MessageHandler.send
+ *
+ * Each topic is subscribed once on the server no matter how many local
+ * subscriptions share it. Subscribe messages go out on subscribe() while open
+ * and are replayed by ConnectionHandler after every (re)connect, before queued
+ * messages are flushed. MessageHandler routes incoming messages by topic.
+ */
+export class SubscriptionHandler<Incoming, Outgoing> {
+  constructor(
+    private state: InternalSocketState<Incoming>,
+    private opts: NormalizedSocketOptions,
+    private messageHandler: MessageHandler<Incoming, Outgoing>
+  ) {}
+
+  subscribe(
+    topic: string,
+    handler?: ((message: Incoming) => void) | null,
+    options?: SubscribeOptions<Outgoing>
+  ): Subscription<Incoming> {
+    if (this.state.connectionState === 'disposed') {
+      throw new Error('Cannot subscribe after dispose()');
+    }
+
+    let entry = this.state.subscriptions.get(topic);
+    const isNew = !entry;
+    if (!entry) {
+      // The first subscription of a topic decides its subscribe/unsubscribe messages
+      entry = {
+        subscribeMessage:
+          options?.subscribeMessage ?? this.opts.subscriptions.subscribeMessage(topic),
+        unsubscribeMessage:
+          options?.unsubscribeMessage ?? this.opts.subscriptions.unsubscribeMessage(topic),
+        handlers: new Set(),
+        count: 0,
+      };
+      this.state.subscriptions.set(topic, entry);
+    }
+    entry.count++;
+
+    // Wrap the handler so the same function can back several subscriptions
+    const registered = handler ? (message: Incoming) => handler(message) : null;
+    if (registered) {
+      entry.handlers.add(registered);
+    }
+
+    // Before the socket opens, the subscription is sent by resubscribe()
+    if (isNew && this.state.connectionState === 'open') {
+      this.messageHandler.send(entry.subscribeMessage as Outgoing);
+    }
+
+    const controller = new AbortController();
+    const config = this.opts.buffer.receive;
+    let active = true;
+
+    return {
+      topic,
+      unsubscribe: () => {
+        if (!active) {
+          return;
+        }
+        active = false;
+        controller.abort();
+        this.release(topic, registered);
+      },
+      [Symbol.asyncIterator]: () =>
+        messagesGenerator<Incoming>(this.state, config, { signal: controller.signal }, { topic })[
+          Symbol.asyncIterator
+        ](),
+    };
+  }
+
+  /**
+   * Send the subscribe message of every registered topic ahead of queued messages
+   */
+  resubscribe(): void {
+    const messages = Array.from(
+      this.state.subscriptions.values(),
+      entry => entry.subscribeMessage as Outgoing
+    );
+    this.messageHandler.sendAhead(messages);
+  }
+
+  private release(topic: string, handler: ((message: Incoming) => void) | null): void {
+    const entry = this.state.subscriptions.get(topic);
+    if (!entry) {
+      // Registry was cleared by dispose()
+      return;
+    }
+    if (handler) {
+      entry.handlers.delete(handler);
+    }
+    entry.count--;
+    if (entry.count > 0) {
+      return;
+    }
+
+    this.state.subscriptions.delete(topic);
+    // A closed socket forgets its subscriptions on the server side anyway
+    if (this.state.connectionState === 'open') {
+      this.messageHandler.send(entry.unsubscribeMessage as Outgoing);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import type {
+  InternalSocketState,
+  NormalizedSocketOptions,
+  TransportFactory,
+  WebSocketLike,
+} from '../types.js';
+import { createEvent } from '../utils.js';
+import { resolveTransport, getTransportName } from '../transports.js';
+import { EventHandler } from './event-handler.js';
+
+/**
+ * Handles the active transport and downgrades through SocketOptions.fallback
+ * when attempts keep failing before the connection opens
+ *
+ * A downgrade lasts for the lifetime of the socket.
+ */
+export class TransportHandler<Incoming> {
+  private chain: TransportFactory[];
+
+  constructor(
+    private state: InternalSocketState<Incoming>,
+    private opts: NormalizedSocketOptions,
+    private eventHandler: EventHandler<Incoming>
+  ) {
+    this.chain = [this.opts.transport, ...this.opts.fallback.transports].map(resolveTransport);
+  }
+
+  /**
+   * Create a connection with the active transport
+   */
+  create(url: string, protocols?: string | string[]): WebSocketLike {
+    return this.chain[this.state.transportIndex](url, protocols);
+  }
+
+  reportSuccess(): void {
+    this.state.transportFailures = 0;
+  }
+
+  /**
+   * Record an attempt that failed before opening and move to the next
+   * transport once FallbackConfig.after attempts in a row have failed
+   */
+  reportFailure(): void {
+    this.state.transportFailures++;
+    const index = this.state.transportIndex;
+    if (this.state.transportFailures < this.opts.fallback.after || index >= this.chain.length - 1) {
+      return;
+    }
+
+    this.state.transportIndex = index + 1;
+    this.state.transportFailures = 0;
+    this.eventHandler.emit(
+      createEvent('downgrade', {
+        from: getTransportName(this.chain[index]),
+        to: getTransportName(this.chain[index + 1]),
+      })
+    );
+  }
+}
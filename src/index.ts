@@ -1,13 +1,64 @@
 export { createSocket } from './socket.js';
+export { jsonCodec, textCodec, rawCodec } from './codecs.js';
+export { websocketTransport, sseTransport, longPollingTransport } from './transports.js';
+export { SocketClosedError, ValidationError } from './errors.js';
 export type {
   Socket,
   SocketOptions,
+  UrlProvider,
+  ConnectContext,
   SocketEvent,
   SocketEventType,
+  ConnectionState,
   BufferOverflowPolicy,
+  WebSocketData,
+  SocketBinaryType,
+  WebSocketLike,
+  TransportFactory,
+  TransportName,
+  FallbackConfig,
+  HttpTransportOptions,
+  SseTransportOptions,
+  LongPollingTransportOptions,
+  Codec,
+  CodecName,
+  ValidateConfig,
+  MessageValidator,
+  ValidationDirection,
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
   ReconnectBackoff,
+  BackoffStrategy,
+  BackoffFunction,
+  CloseInfo,
   BufferConfig,
   ReconnectConfig,
+  CircuitBreakerConfig,
+  CircuitState,
+  LatencyStats,
+  NetworkConfig,
+  NetworkEnvironment,
+  NetworkChange,
+  FailoverConfig,
+  FailoverStrategy,
+  IteratorClosePolicy,
+  IteratorOptions,
+  MessagesOptions,
+  EventsOptions,
+  HeartbeatConfig,
+  HeartbeatMessage,
+  RequestConfig,
+  RequestOptions,
+  SendOptions,
+  WaitOptions,
+  RouterConfig,
+  MessageType,
+  MessageOfType,
+  SubscriptionConfig,
+  SubscribeOptions,
+  Subscription,
+  TopicMessageFactory,
 } from './types.js';
 
 import { createSocket } from './socket.js';
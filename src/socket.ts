@@ -2,14 +2,36 @@ import type {
   SocketOptions,
   Socket as SocketInterface,
   SocketEvent,
+  ConnectionState,
+  CircuitState,
+  LatencyStats,
+  MessagesOptions,
+  BufferConfig,
+  MessageType,
+  MessageOfType,
+  EventsOptions,
+  RequestOptions,
+  SendOptions,
+  WaitOptions,
+  SubscribeOptions,
+  Subscription,
+  SocketEventType,
   InternalSocketState,
   NormalizedSocketOptions,
+  RouterConfig,
 } from './types.js';
 import { normalizeOptions, createState } from './utils.js';
 import { messagesGenerator, eventsGenerator } from './generators.js';
 import { EventHandler } from './handlers/event-handler.js';
 import { MessageHandler } from './handlers/message-handler.js';
 import { ConnectionHandler } from './handlers/connection-handler.js';
+import { HeartbeatHandler } from './handlers/heartbeat-handler.js';
+import { RequestHandler } from './handlers/request-handler.js';
+import { EndpointHandler } from './handlers/endpoint-handler.js';
+import { CircuitBreakerHandler } from './handlers/circuit-breaker-handler.js';
+import { TransportHandler } from './handlers/transport-handler.js';
+import { NetworkHandler } from './handlers/network-handler.js';
+import { SubscriptionHandler } from './handlers/subscription-handler.js';
 
 /**
  * Create a WebSocket client with auto-reconnect, buffering, and async iterables
@@ -19,9 +41,21 @@ import { ConnectionHandler } from './handlers/connection-handler.js';
  * generator-based APIs for consuming messages and events.
  *
  * @param options - Socket configuration options
- * @param options.url - WebSocket server URL (required)
+ * @param options.url - WebSocket server URL, list of endpoints, or URL provider (required)
  * @param options.protocols - Optional WebSocket subprotocol(s)
+ * @param options.transport - Built-in transport name or factory for the underlying connection (default: 'websocket')
+ * @param options.fallback - Transports to downgrade to when connecting keeps failing
+ * @param options.beforeConnect - Optional hook run before every connection attempt
+ * @param options.connectTimeout - Time in ms to wait for the handshake before retrying (0 disables)
+ * @param options.binaryType - How binary frames are exposed ('arraybuffer' or 'blob')
  * @param options.reconnect - Reconnection configuration (boolean or ReconnectConfig)
+ * @param options.circuitBreaker - Circuit breaker around reconnect attempts (boolean or CircuitBreakerConfig)
+ * @param options.network - Online/offline and page visibility awareness (boolean or NetworkConfig)
+ * @param options.failover - Endpoint selection and primary probing when url is a list
+ * @param options.heartbeat - Heartbeat ping/pong configuration (boolean or HeartbeatConfig)
+ * @param options.request - Request/response correlation configuration
+ * @param options.subscriptions - Topic subscribe/unsubscribe messages and topic lookup
+ * @param options.router - Discriminator field used by on() and stream() (pass the same key as the Key type argument)
  * @param options.buffer - Buffer configuration for receive and send queues
  * @returns Socket instance with methods for sending/receiving messages and events
  *
@@ -38,13 +72,17 @@ import { ConnectionHandler } from './handlers/connection-handler.js';
  * socket.onMessage((msg) => console.log(msg));
  * ```
  */
-export function createSocket<Incoming = string, Outgoing = string | object | ArrayBuffer | Blob>(
-  options: SocketOptions
-): SocketInterface<Incoming, Outgoing> {
+export function createSocket<
+  Incoming = string,
+  Outgoing = string | object | ArrayBuffer | Blob,
+  Key extends string = 'type',
+>(
+  options: SocketOptions & { router?: RouterConfig<Key> }
+): SocketInterface<Incoming, Outgoing, Key> {
   const opts = normalizeOptions(options);
   const state = createState<Incoming>();
 
-  const socket = new Socket<Incoming, Outgoing>(state, opts);
+  const socket = new Socket<Incoming, Outgoing, Key>(state, opts);
 
   // Auto-connect by default
   socket.connect();
@@ -55,56 +93,176 @@ export function createSocket<Incoming = string, Outgoing = string | object | Arr
 /**
  * Main Socket implementation that combines EventHandler, MessageHandler, and ConnectionHandler
  */
-class Socket<Incoming, Outgoing> implements SocketInterface<Incoming, Outgoing> {
+class Socket<Incoming, Outgoing, Key extends string> implements SocketInterface<
+  Incoming,
+  Outgoing,
+  Key
+> {
   private eventHandler: EventHandler<Incoming>;
   private messageHandler: MessageHandler<Incoming, Outgoing>;
+  private heartbeatHandler: HeartbeatHandler<Incoming>;
+  private requestHandler: RequestHandler<Incoming, Outgoing>;
+  private subscriptionHandler: SubscriptionHandler<Incoming, Outgoing>;
+  private transportHandler: TransportHandler<Incoming>;
+  private endpointHandler: EndpointHandler<Incoming>;
+  private circuitBreakerHandler: CircuitBreakerHandler<Incoming>;
+  private networkHandler: NetworkHandler<Incoming>;
   private connectionHandler: ConnectionHandler<Incoming, Outgoing>;
 
   constructor(
-    private state: InternalSocketState<Incoming>,
+    private internalState: InternalSocketState<Incoming>,
     private opts: NormalizedSocketOptions
   ) {
     // Create handlers in dependency order
-    this.eventHandler = new EventHandler<Incoming>(this.state);
+    this.eventHandler = new EventHandler<Incoming>(this.internalState);
 
     this.messageHandler = new MessageHandler<Incoming, Outgoing>(
-      this.state,
+      this.internalState,
+      this.opts,
+      this.eventHandler
+    );
+
+    this.heartbeatHandler = new HeartbeatHandler<Incoming>(
+      this.internalState,
+      this.opts,
+      this.eventHandler
+    );
+
+    this.requestHandler = new RequestHandler<Incoming, Outgoing>(
+      this.internalState,
+      this.opts,
+      this.messageHandler
+    );
+
+    this.subscriptionHandler = new SubscriptionHandler<Incoming, Outgoing>(
+      this.internalState,
+      this.opts,
+      this.messageHandler
+    );
+
+    this.transportHandler = new TransportHandler<Incoming>(
+      this.internalState,
+      this.opts,
+      this.eventHandler
+    );
+
+    this.endpointHandler = new EndpointHandler<Incoming>(
+      this.internalState,
+      this.opts,
+      this.eventHandler,
+      this.transportHandler
+    );
+
+    this.circuitBreakerHandler = new CircuitBreakerHandler<Incoming>(
+      this.internalState,
+      this.opts,
+      this.eventHandler
+    );
+
+    this.networkHandler = new NetworkHandler<Incoming>(
+      this.internalState,
       this.opts,
       this.eventHandler
     );
 
     this.connectionHandler = new ConnectionHandler<Incoming, Outgoing>(
-      this.state,
+      this.internalState,
       this.opts,
       this.eventHandler,
-      this.messageHandler
+      this.messageHandler,
+      this.heartbeatHandler,
+      this.requestHandler,
+      this.endpointHandler,
+      this.circuitBreakerHandler,
+      this.transportHandler,
+      this.networkHandler,
+      this.subscriptionHandler
     );
+
+    this.networkHandler.start(
+      () => this.connectionHandler.resume(),
+      () => this.connectionHandler.suspend()
+    );
+  }
+
+  get state(): ConnectionState {
+    return this.internalState.connectionState;
   }
 
-  messages(options?: { signal?: AbortSignal }): AsyncIterable<Incoming> {
-    const signal = options?.signal;
-    return messagesGenerator<Incoming>(this.state, signal);
+  get circuitState(): CircuitState {
+    return this.internalState.circuitState;
   }
 
-  events(options?: { signal?: AbortSignal }): AsyncIterable<SocketEvent> {
-    const signal = options?.signal;
-    return eventsGenerator<Incoming>(this.state, signal);
+  get latency(): LatencyStats | null {
+    return this.heartbeatHandler.latency;
+  }
+
+  messages<Output = Incoming>(options?: MessagesOptions<Incoming, Output>): AsyncIterable<Output> {
+    return messagesGenerator<Incoming, Output>(
+      this.internalState,
+      this.receiveConfig(options),
+      options
+    );
+  }
+
+  events<Output = SocketEvent>(options?: EventsOptions<Output>): AsyncIterable<Output> {
+    return eventsGenerator<Incoming, Output>(this.internalState, options);
   }
 
   onMessage(callback: (data: Incoming) => void): () => void {
-    this.state.messageCallbacks.add(callback);
+    this.internalState.messageCallbacks.add(callback);
     return () => {
-      this.state.messageCallbacks.delete(callback);
+      this.internalState.messageCallbacks.delete(callback);
     };
   }
 
   onEvent(callback: (event: SocketEvent) => void): () => void {
-    this.state.eventCallbacks.add(callback);
+    this.internalState.eventCallbacks.add(callback);
+    return () => {
+      this.internalState.eventCallbacks.delete(callback);
+    };
+  }
+
+  on<Type extends MessageType<Incoming, Key>>(
+    type: Type,
+    handler: (message: MessageOfType<Incoming, Key, Type>) => void
+  ): () => void {
+    const callback = handler as (data: Incoming) => void;
+    let handlers = this.internalState.routeCallbacks.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.internalState.routeCallbacks.set(type, handlers);
+    }
+    handlers.add(callback);
     return () => {
-      this.state.eventCallbacks.delete(callback);
+      handlers.delete(callback);
+      // Drop the empty entry so the type falls back to onUnknown() handlers again
+      if (handlers.size === 0 && this.internalState.routeCallbacks.get(type) === handlers) {
+        this.internalState.routeCallbacks.delete(type);
+      }
     };
   }
 
+  onUnknown(handler: (message: Incoming) => void): () => void {
+    this.internalState.unknownCallbacks.add(handler);
+    return () => {
+      this.internalState.unknownCallbacks.delete(handler);
+    };
+  }
+
+  stream<Type extends MessageType<Incoming, Key>, Output = MessageOfType<Incoming, Key, Type>>(
+    type: Type,
+    options?: MessagesOptions<MessageOfType<Incoming, Key, Type>, Output>
+  ): AsyncIterable<Output> {
+    // Messages reaching this iterator's filter and map already have the requested type
+    return messagesGenerator<Incoming, Output>(
+      this.internalState,
+      this.receiveConfig(options),
+      options as MessagesOptions<Incoming, Output> | undefined,
+      { types: new Set([type]) }
+    );
+  }
+
   connect(): void {
     this.connectionHandler.connect();
   }
@@ -113,14 +271,62 @@ class Socket<Incoming, Outgoing> implements SocketInterface<Incoming, Outgoing>
     this.connectionHandler.close(code, reason);
   }
 
-  send(data: Outgoing): void {
+  dispose(): void {
+    this.connectionHandler.dispose();
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.dispose();
+  }
+
+  send(data: Outgoing): void;
+  send(data: Outgoing, options: SendOptions): Promise<void>;
+  send(data: Outgoing, options?: SendOptions): void | Promise<void> {
+    if (options) {
+      return this.messageHandler.sendTracked(data, options);
+    }
     this.messageHandler.send(data);
   }
 
+  request<Response = Incoming>(data: Outgoing, options?: RequestOptions): Promise<Response> {
+    return this.requestHandler.request<Response>(data, options);
+  }
+
+  subscribe(
+    topic: string,
+    handler?: ((message: Incoming) => void) | null,
+    options?: SubscribeOptions<Outgoing>
+  ): Subscription<Incoming> {
+    return this.subscriptionHandler.subscribe(topic, handler, options);
+  }
+
+  ready(options?: WaitOptions): Promise<void> {
+    return this.connectionHandler.ready(options);
+  }
+
+  ping(options?: WaitOptions): Promise<number> {
+    return this.heartbeatHandler.ping(options);
+  }
+
+  waitFor(
+    type: SocketEventType,
+    predicate?: (event: SocketEvent) => boolean,
+    options?: WaitOptions
+  ): Promise<SocketEvent> {
+    return this.eventHandler.waitFor(type, predicate, options);
+  }
+
   async sendMessages(
     messages: AsyncIterable<Outgoing>,
     options?: { signal?: AbortSignal }
   ): Promise<void> {
     return this.messageHandler.sendMessages(messages, options);
   }
+
+  private receiveConfig(options?: Pick<MessagesOptions, 'buffer'>): Required<BufferConfig> {
+    return {
+      size: options?.buffer?.size ?? this.opts.buffer.receive.size,
+      overflow: options?.buffer?.overflow ?? this.opts.buffer.receive.overflow,
+    };
+  }
 }
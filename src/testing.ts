@@ -0,0 +1,241 @@
+import type {
+  CloseInfo,
+  TestConnection,
+  TestServer,
+  TestServerOptions,
+  TransportFactory,
+  WebSocketData,
+  WebSocketLike,
+} from './types.js';
+import {
+  READY_STATE_CONNECTING,
+  READY_STATE_OPEN,
+  READY_STATE_CLOSING,
+  READY_STATE_CLOSED,
+} from './constants.js';
+import { serializeMessage } from './utils.js';
+
+export type { TestConnection, TestServer, TestServerOptions } from './types.js';
+
+/**
+ * Create an in-memory server for tests
+ *
+ * Pass server.transport as SocketOptions.transport; no globals are patched.
+ * Every open, message and close is delivered with setTimeout(latency), so
+ * tests using fake timers advance them to let traffic through.
+ *
+ * @param options - Latency and accept behaviour
+ * @returns Server controlling every connection made through its transport
+ */
+export function createTestServer(options: TestServerOptions = {}): TestServer {
+  return new LoopbackServer(options);
+}
+
+class LoopbackServer implements TestServer {
+  readonly connections: LoopbackConnection[] = [];
+  readonly transport: TransportFactory = (url, protocols) => this.connect(url, protocols);
+  latency: number;
+
+  private connectionListeners = new Set<(connection: TestConnection) => void>();
+  private messageListeners = new Set<(data: WebSocketData, connection: TestConnection) => void>();
+  private waiting: ((connection: TestConnection) => void)[] = [];
+
+  constructor(private options: TestServerOptions) {
+    this.latency = options.latency ?? 0;
+  }
+
+  get connection(): TestConnection {
+    const connection = this.connections.at(-1);
+    if (!connection) {
+      throw new Error('No connection has been made');
+    }
+    return connection;
+  }
+
+  nextConnection(): Promise<TestConnection> {
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  onConnection(callback: (connection: TestConnection) => void): () => void {
+    this.connectionListeners.add(callback);
+    return () => this.connectionListeners.delete(callback);
+  }
+
+  onMessage(callback: (data: WebSocketData, connection: TestConnection) => void): () => void {
+    this.messageListeners.add(callback);
+    return () => this.messageListeners.delete(callback);
+  }
+
+  broadcast(data: unknown): void {
+    for (const connection of this.connections) {
+      if (connection.readyState === READY_STATE_OPEN) {
+        connection.push(data);
+      }
+    }
+  }
+
+  close(code?: number, reason?: string): void {
+    for (const connection of this.connections) {
+      if (connection.readyState === READY_STATE_OPEN) {
+        connection.close(code, reason);
+      }
+    }
+  }
+
+  private connect(url: string, protocols?: string | string[]): WebSocketLike {
+    const connection = new LoopbackConnection(
+      url,
+      protocols,
+      () => this.latency,
+      data => this.messageListeners.forEach(callback => callback(data, connection))
+    );
+    this.connections.push(connection);
+    this.connectionListeners.forEach(callback => callback(connection));
+    this.waiting.splice(0).forEach(resolve => resolve(connection));
+
+    // Listeners may already have accepted or rejected the connection
+    const autoAccept = this.options.autoAccept ?? true;
+    if (
+      connection.readyState === READY_STATE_CONNECTING &&
+      (typeof autoAccept === 'function' ? autoAccept(connection) : autoAccept)
+    ) {
+      connection.accept();
+    }
+    return connection.client;
+  }
+}
+
+/**
+ * Server side of a loopback connection
+ *
+ * readyState is the server's view: it changes as soon as the server acts,
+ * while the client sees the change once the delivery delay has passed.
+ */
+class LoopbackConnection implements TestConnection {
+  readyState = READY_STATE_CONNECTING;
+  readonly sent: WebSocketData[] = [];
+  closeInfo: CloseInfo | null = null;
+  readonly client: LoopbackSocket;
+
+  constructor(
+    readonly url: string,
+    readonly protocols: string | string[] | undefined,
+    private latency: () => number,
+    private onFrame: (data: WebSocketData) => void
+  ) {
+    this.client = new LoopbackSocket(this);
+  }
+
+  accept(): void {
+    this.assertPending('accept');
+    this.readyState = READY_STATE_OPEN;
+    this.deliver(() => {
+      if (this.client.readyState === READY_STATE_CONNECTING) {
+        this.client.readyState = READY_STATE_OPEN;
+        this.client.onopen?.({ type: 'open' });
+      }
+    });
+  }
+
+  reject(code = 1006, reason = ''): void {
+    this.assertPending('reject');
+    this.end({ code, reason, wasClean: false }, new Error('Connection rejected'));
+  }
+
+  push(data: unknown): void {
+    if (this.readyState !== READY_STATE_OPEN) {
+      throw new Error('Cannot push to a connection that is not open');
+    }
+    const frame = serializeMessage(data);
+    this.deliver(() => {
+      if (this.client.readyState === READY_STATE_OPEN) {
+        this.client.onmessage?.({ data: frame });
+      }
+    });
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState < READY_STATE_CLOSING) {
+      this.end({ code, reason, wasClean: true });
+    }
+  }
+
+  drop(reason = ''): void {
+    if (this.readyState < READY_STATE_CLOSING) {
+      this.end({ code: 1006, reason, wasClean: false }, new Error('Connection dropped'));
+    }
+  }
+
+  /**
+   * Frame sent by the client, recorded once it arrives
+   */
+  receive(data: WebSocketData): void {
+    this.deliver(() => {
+      this.sent.push(data);
+      this.onFrame(data);
+    });
+  }
+
+  /**
+   * Close started by the client
+   */
+  closeFromClient(code: number, reason: string): void {
+    if (this.readyState < READY_STATE_CLOSING) {
+      this.end({ code, reason, wasClean: true });
+    }
+  }
+
+  private end(closeInfo: CloseInfo, error?: Error): void {
+    this.readyState = READY_STATE_CLOSING;
+    this.deliver(() => {
+      this.readyState = READY_STATE_CLOSED;
+      this.closeInfo = closeInfo;
+      this.client.readyState = READY_STATE_CLOSED;
+      if (error) {
+        this.client.onerror?.(error);
+      }
+      this.client.onclose?.(closeInfo);
+    });
+  }
+
+  private deliver(callback: () => void): void {
+    setTimeout(callback, this.latency());
+  }
+
+  private assertPending(action: string): void {
+    if (this.readyState !== READY_STATE_CONNECTING) {
+      throw new Error(`Cannot ${action} a connection that is not pending`);
+    }
+  }
+}
+
+/**
+ * Client side of a loopback connection, handed to the socket by the transport
+ */
+class LoopbackSocket implements WebSocketLike {
+  readyState = READY_STATE_CONNECTING;
+  binaryType = 'blob';
+  onopen: WebSocketLike['onopen'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+
+  constructor(private connection: LoopbackConnection) {}
+
+  send(data: WebSocketData): void {
+    if (this.readyState === READY_STATE_CONNECTING) {
+      throw new Error('WebSocket is still connecting');
+    }
+    // Like the DOM WebSocket, frames sent while closing are discarded
+    if (this.readyState === READY_STATE_OPEN) {
+      this.connection.receive(data);
+    }
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState < READY_STATE_CLOSING) {
+      this.readyState = READY_STATE_CLOSING;
+      this.connection.closeFromClient(code, reason);
+    }
+  }
+}
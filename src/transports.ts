@@ -0,0 +1,235 @@
+import type {
+  HttpTransportOptions,
+  LongPollingTransportOptions,
+  SseTransportOptions,
+  TransportFactory,
+  TransportName,
+  WebSocketData,
+  WebSocketLike,
+} from './types.js';
+import {
+  READY_STATE_CONNECTING,
+  READY_STATE_OPEN,
+  READY_STATE_CLOSING,
+  READY_STATE_CLOSED,
+} from './constants.js';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+// Names of factories returned by the built-in transports, reported in downgrade
+// events (function names do not survive minification)
+const transportNames = new WeakMap<TransportFactory, TransportName>();
+
+function named(name: TransportName, factory: TransportFactory): TransportFactory {
+  transportNames.set(factory, name);
+  return factory;
+}
+
+/**
+ * WebSocket transport (default)
+ *
+ * Uses the global WebSocket, looked up on every connection so polyfills
+ * installed after createSocket() are picked up.
+ */
+export function websocketTransport(): TransportFactory {
+  return named('websocket', (url, protocols) =>
+    protocols ? new WebSocket(url, protocols) : new WebSocket(url)
+  );
+}
+
+/**
+ * Server-Sent Events transport
+ *
+ * Receives messages through an EventSource on the connection URL (ws:// and
+ * wss:// are mapped to http:// and https://) and sends every message as an
+ * HTTP POST to sendUrl, one request at a time to keep their order.
+ * Subprotocols are ignored and the server can only send text.
+ */
+export function sseTransport(options: SseTransportOptions = {}): TransportFactory {
+  return named('sse', url => new SseConnection(toHttpUrl(url), options));
+}
+
+/**
+ * Long-polling transport
+ *
+ * Repeatedly GETs the connection URL: a 200 response body is delivered as one
+ * message and a 204 response carries none. The connection opens when the first
+ * poll succeeds, so servers should answer it right away. Messages are sent as
+ * with sseTransport().
+ */
+export function longPollingTransport(options: LongPollingTransportOptions = {}): TransportFactory {
+  return named('long-polling', url => new LongPollingConnection(toHttpUrl(url), options));
+}
+
+/** Built-in transports selectable by name in SocketOptions.transport and FallbackConfig.transports */
+export const transports = {
+  websocket: websocketTransport(),
+  sse: sseTransport(),
+  'long-polling': longPollingTransport(),
+} as const;
+
+/**
+ * Resolve a transport option to a transport factory
+ *
+ * @param transport - Built-in transport name or custom factory
+ * @returns Factory creating a connection for a URL
+ */
+export function resolveTransport(transport: TransportFactory | TransportName): TransportFactory {
+  return typeof transport === 'string' ? transports[transport] : transport;
+}
+
+/**
+ * Name of a transport factory for events
+ *
+ * @param transport - Resolved transport factory
+ * @returns Built-in transport name, or 'custom' for user factories
+ */
+export function getTransportName(transport: TransportFactory): TransportName | 'custom' {
+  return transportNames.get(transport) ?? 'custom';
+}
+
+function toHttpUrl(url: string): string {
+  return url.replace(/^ws(s?):/i, 'http$1:');
+}
+
+/**
+ * WebSocket emulation over HTTP shared by the SSE and long-polling transports
+ *
+ * Any network or server error drops the connection like an abnormal WebSocket
+ * close (code 1006) and leaves reconnecting to the socket.
+ */
+abstract class HttpConnection implements WebSocketLike {
+  readyState = READY_STATE_CONNECTING;
+  binaryType = 'arraybuffer';
+  onopen: WebSocketLike['onopen'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+
+  protected abortController = new AbortController();
+  private sendUrl: string;
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(
+    protected url: string,
+    protected options: HttpTransportOptions
+  ) {
+    const sendUrl = options.sendUrl;
+    this.sendUrl = typeof sendUrl === 'function' ? sendUrl(url) : (sendUrl ?? url);
+  }
+
+  send(data: WebSocketData): void {
+    if (this.readyState !== READY_STATE_OPEN) {
+      throw new Error('Transport is not open');
+    }
+    this.sending = this.sending
+      .then(async () => {
+        const response = await fetch(this.sendUrl, {
+          ...this.options.requestInit,
+          method: 'POST',
+          body: data as FetchInit['body'],
+          signal: this.abortController.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Send failed with status ${response.status}`);
+        }
+      })
+      .catch(error => this.fail(error));
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState >= READY_STATE_CLOSING) {
+      return;
+    }
+    this.readyState = READY_STATE_CLOSING;
+    this.stop();
+    setTimeout(() => {
+      this.readyState = READY_STATE_CLOSED;
+      this.onclose?.({ code, reason, wasClean: true });
+    }, 0);
+  }
+
+  protected open(): void {
+    if (this.readyState !== READY_STATE_CONNECTING) {
+      return;
+    }
+    this.readyState = READY_STATE_OPEN;
+    this.onopen?.({ type: 'open' });
+  }
+
+  protected deliver(data: string): void {
+    if (this.readyState === READY_STATE_OPEN) {
+      this.onmessage?.({ data });
+    }
+  }
+
+  protected fail(error: unknown): void {
+    if (this.readyState >= READY_STATE_CLOSING) {
+      return;
+    }
+    this.readyState = READY_STATE_CLOSED;
+    this.stop();
+    this.onerror?.(error);
+    this.onclose?.({
+      code: 1006,
+      reason: error instanceof Error ? error.message : '',
+      wasClean: false,
+    });
+  }
+
+  /**
+   * Release the underlying HTTP resources
+   */
+  protected stop(): void {
+    this.abortController.abort();
+  }
+}
+
+class SseConnection extends HttpConnection {
+  private eventSource: EventSource;
+
+  constructor(url: string, options: SseTransportOptions) {
+    super(url, options);
+    this.eventSource = new EventSource(url, { withCredentials: options.withCredentials ?? false });
+    this.eventSource.onopen = () => this.open();
+    this.eventSource.onmessage = event => this.deliver(event.data);
+    // EventSource would retry on its own; the socket's reconnect logic takes over instead
+    this.eventSource.onerror = () => this.fail(new Error('EventSource connection failed'));
+  }
+
+  protected stop(): void {
+    super.stop();
+    this.eventSource.close();
+  }
+}
+
+class LongPollingConnection extends HttpConnection {
+  constructor(url: string, options: LongPollingTransportOptions) {
+    super(url, options);
+    void this.poll();
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      while (this.readyState <= READY_STATE_OPEN) {
+        const response = await fetch(this.url, {
+          ...this.options.requestInit,
+          method: 'GET',
+          signal: this.abortController.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Poll failed with status ${response.status}`);
+        }
+        this.open();
+        if (response.status !== 204) {
+          const body = await response.text();
+          if (body) {
+            this.deliver(body);
+          }
+        }
+      }
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+}
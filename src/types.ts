@@ -6,13 +6,233 @@ export type SocketEventType =
   | 'reconnect'
   | 'received'
   | 'sent'
-  | 'dropped';
+  | 'dropped'
+  | 'heartbeat'
+  | 'timeout'
+  | 'stateChange'
+  | 'failover'
+  | 'failed'
+  | 'circuitChange'
+  | 'downgrade'
+  | 'network'
+  | 'latency'
+  | 'invalid';
+
+/** Connection lifecycle states, used in Socket.state and stateChange event meta */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closing'
+  | 'closed'
+  | 'failed'
+  | 'disposed';
+
+/** Reconnect circuit breaker states, used in Socket.circuitState and circuitChange event meta */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Raw frame payload as received from or handed to the WebSocket, used in receive buffer and send queue */
+export type WebSocketData = string | ArrayBuffer | Blob | ArrayBufferView;
+
+/**
+ * Event handler slot on WebSocketLike
+ *
+ * Declared through a method signature so implementations whose handlers take
+ * richer event types (the DOM WebSocket, the `ws` package) still conform.
+ */
+type EventHandlerSlot<Event> = { handle(event: Event): void }['handle'] | null;
+
+/**
+ * Minimal WebSocket surface used by the socket, returned by SocketOptions.transport
+ *
+ * The DOM WebSocket and the `ws` package both conform; readyState uses the
+ * standard values (0 connecting, 1 open, 2 closing, 3 closed).
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType: string;
+  onopen: EventHandlerSlot<unknown>;
+  onmessage: EventHandlerSlot<{ data: unknown }>;
+  onerror: EventHandlerSlot<unknown>;
+  onclose: EventHandlerSlot<{ code: number; reason: string; wasClean: boolean }>;
+  send(data: WebSocketData): void;
+  close(code?: number, reason?: string): void;
+}
+
+/** Creates the connection for every attempt and primary probe, used in SocketOptions.transport */
+export type TransportFactory = (url: string, protocols?: string | string[]) => WebSocketLike;
+
+/** Built-in transport names, used in SocketOptions.transport and FallbackConfig.transports */
+export type TransportName = 'websocket' | 'sse' | 'long-polling';
+
+/** Options for the HTTP-based transports created by sseTransport() and longPollingTransport() */
+export interface HttpTransportOptions {
+  /** URL outgoing messages are POSTed to, or a function of the connection URL (default: the connection URL) */
+  sendUrl?: string | ((url: string) => string);
+  /** Extra fetch() options for every HTTP request, e.g. headers or credentials */
+  requestInit?: Parameters<typeof fetch>[1];
+}
+
+/** Options passed to sseTransport() */
+export interface SseTransportOptions extends HttpTransportOptions {
+  /** Passed to the EventSource constructor to send cookies cross-origin */
+  withCredentials?: boolean;
+}
+
+/** Options passed to longPollingTransport() */
+export type LongPollingTransportOptions = HttpTransportOptions;
+
+/** Transport downgrade settings, used in SocketOptions.fallback */
+export interface FallbackConfig {
+  /** Transports tried in order after SocketOptions.transport keeps failing */
+  transports: (TransportFactory | TransportName)[];
+  /** Consecutive attempts that fail before opening after which the next transport is used (default: 3) */
+  after?: number;
+}
+
+/** Options passed to createTestServer() from purrcat/testing */
+export interface TestServerOptions {
+  /** Delay in ms applied to every open, message and close in either direction (default: 0) */
+  latency?: number;
+  /** Accept new connections automatically; false or a predicate returning false leaves them pending (default: true) */
+  autoAccept?: boolean | ((connection: TestConnection) => boolean);
+}
+
+/** Server side of one loopback connection, used in TestServer */
+export interface TestConnection {
+  readonly url: string;
+  readonly protocols?: string | string[];
+  /** Server view of the connection state (standard readyState values) */
+  readonly readyState: number;
+  /** Frames the client sent, in order */
+  readonly sent: WebSocketData[];
+  /** Close code and reason once the connection is closed */
+  readonly closeInfo: CloseInfo | null;
+  /** Open a pending connection */
+  accept(): void;
+  /** Refuse a pending connection: the client sees an error, then a close that is not clean */
+  reject(code?: number, reason?: string): void;
+  /** Send a message to the client (objects are JSON-serialized) */
+  push(data: unknown): void;
+  /** Close the connection cleanly from the server */
+  close(code?: number, reason?: string): void;
+  /** Drop the connection abnormally: error, then close with code 1006 */
+  drop(reason?: string): void;
+}
+
+/** In-memory fake server returned by createTestServer() */
+export interface TestServer {
+  /** Pass as SocketOptions.transport */
+  readonly transport: TransportFactory;
+  /** Current delivery delay in ms; can be changed mid-test to simulate a slow link */
+  latency: number;
+  /** Every connection the clients made, oldest first */
+  readonly connections: TestConnection[];
+  /** Most recent connection, throws if there is none */
+  readonly connection: TestConnection;
+  /** Resolves with the next connection a client makes */
+  nextConnection(): Promise<TestConnection>;
+  /** Called for every new connection, before it is accepted; returns an unsubscribe function */
+  onConnection(callback: (connection: TestConnection) => void): () => void;
+  /** Called for every frame a client sends once it arrives; returns an unsubscribe function */
+  onMessage(callback: (data: WebSocketData, connection: TestConnection) => void): () => void;
+  /** Push a message to every open connection */
+  broadcast(data: unknown): void;
+  /** Close every open connection cleanly */
+  close(code?: number, reason?: string): void;
+}
+
+/** How binary frames are exposed by the WebSocket, used in SocketOptions.binaryType */
+export type SocketBinaryType = 'arraybuffer' | 'blob';
+
+/**
+ * Encodes outgoing messages to frames and decodes incoming frames to messages, used in SocketOptions.codec
+ *
+ * Both hooks may return a Promise; message order is preserved either way.
+ */
+export interface Codec<Incoming = unknown, Outgoing = unknown> {
+  encode(data: Outgoing): WebSocketData | Promise<WebSocketData>;
+  decode(data: WebSocketData): Incoming | Promise<Incoming>;
+}
+
+/** Names of built-in codecs, used in SocketOptions.codec */
+export type CodecName = 'json' | 'text' | 'raw';
+
+/** Problem reported by a validator, used in StandardSchemaResult and the invalid event */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** Outcome of a Standard Schema validation, used in StandardSchemaV1 */
+export type StandardSchemaResult<Output = unknown> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Standard Schema v1 interface (https://standardschema.dev)
+ *
+ * Implemented by Zod, Valibot, ArkType and others, so their schemas can be
+ * passed to ValidateConfig without an adapter.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/** Standard Schema or type guard checking a message, used in ValidateConfig */
+export type MessageValidator = StandardSchemaV1 | ((value: unknown) => boolean);
+
+/** Direction of a message checked by ValidateConfig, used in the invalid event and ValidationError */
+export type ValidationDirection = 'incoming' | 'outgoing';
+
+/** Message validation, used in SocketOptions.validate */
+export interface ValidateConfig {
+  /** Checks decoded incoming messages; invalid ones emit an invalid event instead of being delivered */
+  incoming?: MessageValidator;
+  /** Checks messages passed to send() before encoding; invalid ones emit an invalid event and are not sent */
+  outgoing?: MessageValidator;
+  /** Throw ValidationError from send() for invalid messages (synchronous validators only) (default: false) */
+  rejectInvalidSend?: boolean;
+}
 
 /** Policy for handling buffer overflow when receive/send queues are full, used in BufferConfig.overflow */
 export type BufferOverflowPolicy = 'oldest' | 'newest' | 'error';
 
-/** Strategy for increasing reconnect delay, used in ReconnectConfig.backoff and calculateReconnectInterval() */
-export type ReconnectBackoff = 'linear' | 'exponential';
+/** Built-in strategy for increasing reconnect delay, used in ReconnectConfig.backoff and calculateReconnectInterval() */
+export type BackoffStrategy =
+  | 'linear'
+  | 'exponential'
+  | 'decorrelated'
+  | 'full-jitter'
+  | 'fibonacci';
+
+/** Close details recorded for the last dropped connection, passed to BackoffFunction */
+export interface CloseInfo {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+/**
+ * Computes the delay in milliseconds before reconnect attempt number `attempt` (1-based),
+ * or null to stop reconnecting, used in ReconnectConfig.backoff
+ */
+export type BackoffFunction = (
+  attempt: number,
+  lastError: unknown,
+  closeEvent: CloseInfo | null
+) => number | null;
+
+/** Built-in backoff strategy or custom delay function, used in ReconnectConfig.backoff */
+export type ReconnectBackoff = BackoffStrategy | BackoffFunction;
 
 /** Buffer configuration shared by receive buffer and send queue, used in SocketOptions.buffer */
 export interface BufferConfig {
@@ -20,6 +240,39 @@ export interface BufferConfig {
   overflow?: BufferOverflowPolicy;
 }
 
+/** What an iterator does when the socket closes for good, used in IteratorOptions.onClose */
+export type IteratorClosePolicy = 'complete' | 'throw';
+
+/** Options shared by Socket.messages() and Socket.events() */
+export interface IteratorOptions {
+  signal?: AbortSignal;
+  /** Finish the loop or throw SocketClosedError once the socket is closed, failed or disposed (default: 'complete') */
+  onClose?: IteratorClosePolicy;
+  /** Keep iterating while the socket reconnects after a dropped connection (default: true) */
+  persistent?: boolean;
+}
+
+/** Options passed to Socket.messages() and Socket.stream() */
+export interface MessagesOptions<Incoming = unknown, Output = Incoming> extends IteratorOptions {
+  /** Overrides SocketOptions.buffer.receive for this iterator's own buffer */
+  buffer?: BufferConfig;
+  // Method syntax keeps Socket<string> assignable to Socket<unknown>
+  /** Only messages for which this returns true are buffered and yielded */
+  filter?(message: Incoming): boolean;
+  /** Transforms each message as it is yielded */
+  map?(message: Incoming): Output;
+}
+
+/** Options passed to Socket.events() */
+export interface EventsOptions<Output = SocketEvent> extends IteratorOptions {
+  /** Only events of these types are buffered and yielded */
+  types?: SocketEventType[];
+  /** Only events for which this returns true are buffered and yielded */
+  filter?: (event: SocketEvent) => boolean;
+  /** Transforms each event as it is yielded */
+  map?: (event: SocketEvent) => Output;
+}
+
 /** Reconnection settings, used in SocketOptions.reconnect (can be boolean for simple enable/disable) */
 export interface ReconnectConfig {
   enabled?: boolean;
@@ -27,6 +280,178 @@ export interface ReconnectConfig {
   interval?: number;
   backoff?: ReconnectBackoff;
   maxInterval?: number;
+  /** Random variation applied to linear, exponential and fibonacci delays, as a ratio of the delay (default: 0.2) */
+  jitter?: number;
+  /** Close codes that stop reconnecting, e.g. 1008 or an app-level 4001 "unauthorized" (default: []) */
+  fatalCodes?: number[];
+  /** Close codes that reconnect without waiting for the backoff delay (default: []) */
+  immediateCodes?: number[];
+  /** Called after an unexpected close with the 1-based attempt number; return false to stop reconnecting */
+  shouldReconnect?: (closeEvent: CloseInfo, attempt: number) => boolean;
+}
+
+/** Payload sent as a heartbeat ping, used in HeartbeatConfig.message */
+export type HeartbeatMessage = string | object | ArrayBuffer | Blob;
+
+/** Heartbeat settings, used in SocketOptions.heartbeat (can be boolean for simple enable/disable) */
+export interface HeartbeatConfig {
+  enabled?: boolean;
+  /** Delay in milliseconds between a pong (or open) and the next ping */
+  interval?: number;
+  /** Time in milliseconds to wait for a pong before the connection is treated as dead */
+  timeout?: number;
+  /** Ping payload, or a factory called before every ping */
+  message?: HeartbeatMessage | (() => HeartbeatMessage);
+  /** Returns true if a raw incoming message is the pong reply (pongs are not delivered to consumers) */
+  isPong?: (data: WebSocketData) => boolean;
+}
+
+/** Round-trip time statistics over the last LATENCY_SAMPLE_SIZE pongs, used in Socket.latency and latency event meta */
+export interface LatencyStats {
+  /** Most recent round-trip time in milliseconds */
+  current: number;
+  min: number;
+  avg: number;
+  /** 95th percentile (nearest rank) */
+  p95: number;
+  /** Mean absolute difference between consecutive samples */
+  jitter: number;
+  /** Number of samples the statistics are computed from */
+  samples: number;
+}
+
+/** Circuit breaker around reconnect attempts, used in SocketOptions.circuitBreaker (can be boolean for simple enable/disable) */
+export interface CircuitBreakerConfig {
+  enabled?: boolean;
+  /** Failed connections within `window` that open the circuit (default: 5) */
+  threshold?: number;
+  /** Time window in milliseconds in which failures are counted (default: 60000) */
+  window?: number;
+  /** Time in milliseconds the circuit stays open before a single half-open attempt (default: 30000) */
+  cooldown?: number;
+}
+
+/** Network or page visibility change reported by NetworkEnvironment.subscribe() */
+export type NetworkChange = 'online' | 'offline' | 'visible' | 'hidden';
+
+/**
+ * Source of network and page visibility status, used in NetworkConfig.environment
+ *
+ * The default reads navigator.onLine and document.visibilityState and listens
+ * to the window online/offline and document visibilitychange events.
+ */
+export interface NetworkEnvironment {
+  isOnline(): boolean;
+  isVisible(): boolean;
+  /** Start listening for changes; returns a function that stops listening */
+  subscribe(listener: (change: NetworkChange) => void): () => void;
+}
+
+/** Online/offline and page visibility awareness, used in SocketOptions.network (can be boolean for simple enable/disable) */
+export interface NetworkConfig {
+  enabled?: boolean;
+  /** Status source, e.g. a fake in tests or an adapter for React Native (default: browser globals) */
+  environment?: NetworkEnvironment;
+  /** Time in milliseconds the page may stay hidden before the connection is closed until it is visible again; 0 keeps it open (default: 0) */
+  hiddenTimeout?: number;
+}
+
+/** Request/response settings, used in SocketOptions.request */
+export interface RequestConfig {
+  /** Message field used to stamp and match correlation ids */
+  idKey?: string;
+  /** Default time in milliseconds to wait for a reply before request() rejects */
+  timeout?: number;
+  /** Generates a unique correlation id for every request() */
+  generateId?: () => string | number;
+  /** Also deliver replies to messages() and onMessage() (replies are consumed by request() by default) */
+  deliverReplies?: boolean;
+}
+
+/** Options passed to Socket.request() */
+export interface RequestOptions {
+  /** Overrides RequestConfig.timeout for this request */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+/** Message routing by discriminator field, used in SocketOptions.router */
+export interface RouterConfig<Key extends string = string> {
+  /** Field whose value selects the on()/stream() handlers of a message (default: 'type') */
+  key?: Key;
+}
+
+/** Discriminator values of the Incoming union, used in Socket.on() and Socket.stream() */
+export type MessageType<Incoming, Key extends string = 'type'> =
+  Incoming extends Record<Key, infer Type> ? Type : never;
+
+/** Members of the Incoming union with the given discriminator value, used in Socket.on() and Socket.stream() */
+export type MessageOfType<Incoming, Key extends string, Type> = Extract<
+  Incoming,
+  Record<Key, Type>
+>;
+
+/** Builds the message that subscribes to or unsubscribes from a topic, used in SubscriptionConfig */
+export type TopicMessageFactory = (topic: string) => unknown;
+
+/** Topic subscription protocol, used in SocketOptions.subscriptions */
+export interface SubscriptionConfig {
+  /** Sent when a topic gets its first subscriber and again after every reconnect (default: { type: 'subscribe', topic }) */
+  subscribeMessage?: TopicMessageFactory;
+  /** Sent when the last subscriber of a topic unsubscribes (default: { type: 'unsubscribe', topic }) */
+  unsubscribeMessage?: TopicMessageFactory;
+  /** Topic an incoming message belongs to, or undefined (default: the message's string `topic` field) */
+  topicOf?: (message: unknown) => string | undefined;
+}
+
+/** Options passed to Socket.subscribe(), override SocketOptions.subscriptions for the topic */
+export interface SubscribeOptions<Outgoing = unknown> {
+  subscribeMessage?: Outgoing;
+  unsubscribeMessage?: Outgoing;
+}
+
+/** Handle returned by Socket.subscribe(); iterating it yields the topic's messages until unsubscribe() */
+export interface Subscription<Incoming = string> extends AsyncIterable<Incoming> {
+  readonly topic: string;
+  unsubscribe(): void;
+}
+
+/** Topic entry stored in InternalSocketState.subscriptions, shared by every subscribe() call for the topic */
+export interface TopicSubscription<Incoming = string> {
+  subscribeMessage: unknown;
+  unsubscribeMessage: unknown;
+  handlers: Set<(message: Incoming) => void>;
+  /** Active Subscription handles; the topic is unsubscribed when it drops to 0 */
+  count: number;
+}
+
+/** Options passed to Socket.ready() and Socket.waitFor() */
+export interface WaitOptions {
+  /** Time in milliseconds to wait before rejecting (default: wait indefinitely) */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+/** Options passed to Socket.send(); with them send() returns a Promise of the message's delivery */
+export interface SendOptions {
+  /** Time in milliseconds a message may wait in the send queue before it is removed and rejected (default: wait indefinitely) */
+  timeout?: number;
+  /** Removes the message from the send queue and rejects when aborted */
+  signal?: AbortSignal;
+}
+
+/** Delivery receipt of a Socket.send(data, options) call, stored in InternalSocketState.sendReceipts */
+export interface SendReceipt {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  /** Set once the Promise settles; an expired or aborted message is not sent */
+  settled: boolean;
+}
+
+/** Pending request entry stored in InternalSocketState.pendingRequests, keyed by correlation id */
+export interface PendingRequest<Incoming = string> {
+  resolve: (reply: Incoming) => void;
+  reject: (error: unknown) => void;
 }
 
 /** Event structure emitted via events() generator and onEvent() callbacks */
@@ -36,12 +461,67 @@ export interface SocketEvent {
   meta?: Record<string, unknown>;
 }
 
+/** How the next endpoint is picked when SocketOptions.url is a list, used in FailoverConfig.strategy */
+export type FailoverStrategy = 'priority' | 'round-robin' | 'random';
+
+/** Multi-endpoint failover settings, used in SocketOptions.failover when SocketOptions.url is a list */
+export interface FailoverConfig {
+  /** 'priority' prefers earlier URLs, 'round-robin' moves to the next URL after a failure, 'random' picks any healthy URL (default: 'priority') */
+  strategy?: FailoverStrategy;
+  /** With 'priority', how often to probe the primary (first) URL while connected elsewhere; 0 disables probing (default: 30000) */
+  probeInterval?: number;
+}
+
+/** Per-endpoint health stored in InternalSocketState.endpoints */
+export interface EndpointState {
+  url: string;
+  /** Consecutive failed attempts, reset when a connection opens */
+  failures: number;
+  /** Timestamp before which the endpoint is skipped if another one is available */
+  retryAt: number;
+}
+
+/** Resolves the server URL before every connection attempt, used in SocketOptions.url */
+export type UrlProvider = () => string | Promise<string>;
+
+/** Per-attempt connection parameters passed to SocketOptions.beforeConnect, which may modify url and protocols */
+export interface ConnectContext {
+  url: string;
+  protocols?: string | string[];
+  /** Reconnect attempt number (0 for the initial connection) */
+  attempt: number;
+}
+
 /** Options passed to createSocket() to configure the WebSocket client */
 export interface SocketOptions {
-  url: string;
+  /** Server URL, list of endpoints to fail over between, or a provider called before every connection attempt */
+  url: string | string[] | UrlProvider;
   /** WebSocket subprotocol(s) to negotiate with server, passed as second argument to WebSocket constructor */
   protocols?: string | string[];
+  /** Creates the underlying connection: built-in transport name or factory, e.g. with the `ws` package in Node (default: 'websocket') */
+  transport?: TransportFactory | TransportName;
+  /** Transports to downgrade to when the current one keeps failing to connect */
+  fallback?: FallbackConfig;
+  /** How binary frames are exposed, set on WebSocket.binaryType (default: 'arraybuffer') */
+  binaryType?: SocketBinaryType;
+  /** Time in milliseconds to wait for the handshake before the attempt is aborted and retried; 0 disables (default: 0) */
+  connectTimeout?: number;
+  /** Runs before every connection attempt; may refresh credentials and change url/protocols. A throw or rejection counts as a failed attempt */
+  beforeConnect?: (context: ConnectContext) => void | Promise<void>;
+  /** Message encoding: built-in codec name or custom encode/decode hooks (default: 'json') */
+  codec?: Codec | CodecName;
   reconnect?: boolean | ReconnectConfig;
+  /** Stop reconnecting for a cooldown after repeated failures (disabled unless provided) */
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+  /** Pause reconnecting while offline, reconnect as soon as the network returns (disabled unless provided) */
+  network?: boolean | NetworkConfig;
+  failover?: FailoverConfig;
+  heartbeat?: boolean | HeartbeatConfig;
+  request?: RequestConfig;
+  subscriptions?: SubscriptionConfig;
+  router?: RouterConfig;
+  /** Validate incoming and outgoing messages with a Standard Schema or type guard */
+  validate?: ValidateConfig;
   buffer?: {
     receive?: BufferConfig;
     send?: BufferConfig;
@@ -49,45 +529,157 @@ export interface SocketOptions {
 }
 
 /** Return type of createSocket(), provides async iterables and callbacks for messages/events */
-export interface Socket<Incoming = string, Outgoing = string | object | ArrayBuffer | Blob> {
-  messages(options?: { signal?: AbortSignal }): AsyncIterable<Incoming>;
-  events(options?: { signal?: AbortSignal }): AsyncIterable<SocketEvent>;
+export interface Socket<
+  Incoming = string,
+  Outgoing = string | object | ArrayBuffer | Blob,
+  Key extends string = 'type',
+> extends AsyncDisposable {
+  /** Current connection state */
+  readonly state: ConnectionState;
+  /** Current reconnect circuit breaker state ('closed' while the breaker is disabled) */
+  readonly circuitState: CircuitState;
+  /** Round-trip time statistics for the current connection, null until the first pong */
+  readonly latency: LatencyStats | null;
+  messages<Output>(
+    options: MessagesOptions<Incoming, Output> & { map: (message: Incoming) => Output }
+  ): AsyncIterable<Output>;
+  messages(options?: MessagesOptions<Incoming>): AsyncIterable<Incoming>;
+  events<Output>(
+    options: EventsOptions<Output> & { map: (event: SocketEvent) => Output }
+  ): AsyncIterable<Output>;
+  events(options?: EventsOptions): AsyncIterable<SocketEvent>;
   onMessage(callback: (data: Incoming) => void): () => void;
   onEvent(callback: (event: SocketEvent) => void): () => void;
+  /** Call handler for messages whose discriminator (router.key) equals type */
+  on<Type extends MessageType<Incoming, Key>>(
+    type: Type,
+    handler: (message: MessageOfType<Incoming, Key, Type>) => void
+  ): () => void;
+  /** Call handler for messages whose discriminator has no on() handler */
+  onUnknown(handler: (message: Incoming) => void): () => void;
+  /** Async iterable of the messages whose discriminator (router.key) equals type */
+  stream<Type extends MessageType<Incoming, Key>, Output = MessageOfType<Incoming, Key, Type>>(
+    type: Type,
+    options?: MessagesOptions<MessageOfType<Incoming, Key, Type>, Output>
+  ): AsyncIterable<Output>;
   connect(): void;
   close(code?: number, reason?: string): void;
+  dispose(): void;
   send(data: Outgoing): void;
+  /** Send and resolve once the frame is written to the WebSocket; rejects if it is dropped, expires or is discarded by close() */
+  send(data: Outgoing, options: SendOptions): Promise<void>;
+  request<Response = Incoming>(data: Outgoing, options?: RequestOptions): Promise<Response>;
+  /** Subscribe to a topic; the subscription is replayed after every reconnect */
+  subscribe(
+    topic: string,
+    handler?: ((message: Incoming) => void) | null,
+    options?: SubscribeOptions<Outgoing>
+  ): Subscription<Incoming>;
+  ready(options?: WaitOptions): Promise<void>;
+  /** Send a heartbeat ping now and resolve with the round-trip time in milliseconds */
+  ping(options?: WaitOptions): Promise<number>;
+  waitFor(
+    type: SocketEventType,
+    predicate?: (event: SocketEvent) => boolean,
+    options?: WaitOptions
+  ): Promise<SocketEvent>;
   sendMessages(
     messages: AsyncIterable<Outgoing>,
     options?: { signal?: AbortSignal }
   ): Promise<void>;
 }
 
+/** Per-iterator buffer registered by eventsGenerator(), every subscriber receives every item */
+export interface IteratorSubscriber<T> {
+  buffer: T[];
+  resolvers: Set<() => void>;
+}
+
+/** Per-iterator receive buffer registered by messagesGenerator() with its own overflow policy */
+export interface MessageSubscriber<Incoming> extends IteratorSubscriber<Incoming>, MessageMatch {
+  config: Required<BufferConfig>;
+  /** MessagesOptions.filter, checked after topic and types */
+  filter?: (message: Incoming) => boolean;
+}
+
+/** Per-iterator event buffer registered by eventsGenerator(), only filled with accepted events */
+export interface EventSubscriber extends IteratorSubscriber<SocketEvent> {
+  types?: ReadonlySet<SocketEventType>;
+  filter?: (event: SocketEvent) => boolean;
+}
+
+/** Restricts which messages a messagesGenerator() iterator buffers, used in MessageSubscriber */
+export interface MessageMatch {
+  /** Only messages of this topic are buffered (set for Subscription iterators) */
+  topic?: string;
+  /** Only messages whose discriminator is in this set are buffered (set by stream()) */
+  types?: ReadonlySet<unknown>;
+}
+
 /** Internal state managed by createSocket(), not exposed to users */
 export interface InternalSocketState<Incoming = string> {
-  ws: WebSocket | null;
+  ws: WebSocketLike | null;
+  connectionState: ConnectionState;
   isManualClose: boolean;
   reconnectCount: number;
   reconnectTimer: ReturnType<typeof setTimeout> | null;
-  messageBuffer: string[];
+  connectTimer: ReturnType<typeof setTimeout> | null;
+  lastReconnectInterval: number | null;
+  lastError: unknown;
+  lastClose: CloseInfo | null;
+  transportIndex: number;
+  transportFailures: number;
+  circuitState: CircuitState;
+  circuitFailures: number[];
+  hiddenTimer: ReturnType<typeof setTimeout> | null;
+  hiddenSuspended: boolean;
+  endpoints: EndpointState[];
+  activeEndpoint: number | null;
+  probeTimer: ReturnType<typeof setTimeout> | null;
+  probeSocket: WebSocketLike | null;
+  heartbeatTimer: ReturnType<typeof setTimeout> | null;
+  heartbeatTimeoutTimer: ReturnType<typeof setTimeout> | null;
+  lastPingTs: number | null;
+  rttSamples: number[];
+  requestCounter: number;
+  pendingRequests: Map<unknown, PendingRequest<Incoming>>;
+  subscriptions: Map<string, TopicSubscription<Incoming>>;
   eventQueue: SocketEvent[];
-  messageQueue: string[];
+  messageQueue: WebSocketData[];
+  /** Receipts of messageQueue entries at the same index; undefined for plain send() calls */
+  sendReceipts: Array<SendReceipt | undefined>;
   messageCallbacks: Set<(data: Incoming) => void>;
+  routeCallbacks: Map<unknown, Set<(data: Incoming) => void>>;
+  unknownCallbacks: Set<(data: Incoming) => void>;
   eventCallbacks: Set<(event: SocketEvent) => void>;
   abortController: AbortController | null;
-  activeMessageIterators: number;
-  activeEventIterators: number;
-  messageResolvers: Set<() => void>;
-  eventResolvers: Set<() => void>;
+  messageSubscribers: Set<MessageSubscriber<Incoming>>;
+  eventSubscribers: Set<EventSubscriber>;
 }
 
 /** Normalized options returned by normalizeOptions(), all fields are required with defaults applied */
 export interface NormalizedSocketOptions {
-  reconnect: Required<ReconnectConfig>;
+  reconnect: Omit<Required<ReconnectConfig>, 'shouldReconnect'> &
+    Pick<ReconnectConfig, 'shouldReconnect'>;
+  circuitBreaker: Required<CircuitBreakerConfig>;
+  network: Required<NetworkConfig>;
+  heartbeat: Required<HeartbeatConfig>;
+  request: Omit<Required<RequestConfig>, 'generateId'> & Pick<RequestConfig, 'generateId'>;
+  subscriptions: Required<SubscriptionConfig>;
+  router: Required<RouterConfig>;
+  validate: Omit<Required<ValidateConfig>, 'incoming' | 'outgoing'> &
+    Pick<ValidateConfig, 'incoming' | 'outgoing'>;
   buffer: {
     receive: Required<BufferConfig>;
     send: Required<BufferConfig>;
   };
-  url: string;
+  url: string | string[] | UrlProvider;
+  failover: Required<FailoverConfig>;
   protocols?: string | string[];
+  transport: TransportFactory | TransportName;
+  fallback: Required<FallbackConfig>;
+  connectTimeout: number;
+  beforeConnect?: (context: ConnectContext) => void | Promise<void>;
+  binaryType: SocketBinaryType;
+  codec: Codec | CodecName;
 }
@@ -1,19 +1,45 @@
 import type {
   SocketEvent,
+  EventSubscriber,
   SocketEventType,
-  ReconnectBackoff,
+  BackoffStrategy,
   SocketOptions,
   NormalizedSocketOptions,
   ReconnectConfig,
+  CircuitBreakerConfig,
+  NetworkConfig,
+  NetworkEnvironment,
+  HeartbeatConfig,
   InternalSocketState,
   BufferOverflowPolicy,
+  WebSocketData,
+  ConnectionState,
+  LatencyStats,
+  MessageValidator,
+  StandardSchemaResult,
 } from './types.js';
 import {
   RECONNECT_JITTER_RATIO,
   POLLING_INTERVAL_MS,
   DEFAULT_RECONNECT_INTERVAL,
   DEFAULT_MAX_RECONNECT_INTERVAL,
+  DEFAULT_CONNECT_TIMEOUT,
+  DEFAULT_FALLBACK_AFTER,
+  DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+  DEFAULT_CIRCUIT_BREAKER_WINDOW,
+  DEFAULT_CIRCUIT_BREAKER_COOLDOWN,
+  DEFAULT_NETWORK_HIDDEN_TIMEOUT,
   DEFAULT_BUFFER_SIZE,
+  DEFAULT_HEARTBEAT_INTERVAL,
+  DEFAULT_HEARTBEAT_TIMEOUT,
+  DEFAULT_HEARTBEAT_MESSAGE,
+  DEFAULT_HEARTBEAT_PONG,
+  DEFAULT_REQUEST_ID_KEY,
+  DEFAULT_REQUEST_TIMEOUT,
+  DEFAULT_ROUTER_KEY,
+  DEFAULT_BINARY_TYPE,
+  DEFAULT_FAILOVER_STRATEGY,
+  DEFAULT_FAILOVER_PROBE_INTERVAL,
 } from './constants.js';
 
 /**
@@ -34,33 +60,64 @@ export function createEvent(type: SocketEventType, meta?: Record<string, unknown
 /**
  * Calculate reconnect interval with backoff strategy and jitter
  *
+ * 'full-jitter' picks a random delay up to the exponential delay, and
+ * 'decorrelated' picks one between the base interval and three times the
+ * previous delay; both are random by design, so jitterRatio does not apply.
+ *
  * @param attempt - Current reconnect attempt number (0-based)
  * @param baseInterval - Base interval in milliseconds
- * @param backoff - Backoff strategy: 'exponential' or 'linear'
+ * @param backoff - Built-in backoff strategy
  * @param maxInterval - Maximum interval in milliseconds
+ * @param jitterRatio - Random variation as a ratio of the delay for linear, exponential and fibonacci
+ * @param previousInterval - Delay used for the previous attempt (decorrelated only)
  * @returns Calculated interval in milliseconds with jitter applied
  */
 export function calculateReconnectInterval(
   attempt: number,
   baseInterval: number,
-  backoff: ReconnectBackoff,
-  maxInterval: number
+  backoff: BackoffStrategy,
+  maxInterval: number,
+  jitterRatio: number = RECONNECT_JITTER_RATIO,
+  previousInterval?: number
 ): number {
   let interval: number;
-  if (backoff === 'exponential') {
-    interval = baseInterval * Math.pow(2, attempt);
-  } else {
-    // linear backoff
-    interval = baseInterval * (attempt + 1);
+  switch (backoff) {
+    case 'full-jitter':
+      return Math.random() * Math.min(baseInterval * Math.pow(2, attempt), maxInterval);
+    case 'decorrelated': {
+      const upper = Math.max(baseInterval, (previousInterval ?? baseInterval) * 3);
+      return Math.min(baseInterval + Math.random() * (upper - baseInterval), maxInterval);
+    }
+    case 'fibonacci':
+      interval = baseInterval * fibonacci(attempt);
+      break;
+    case 'exponential':
+      interval = baseInterval * Math.pow(2, attempt);
+      break;
+    default:
+      // linear backoff
+      interval = baseInterval * (attempt + 1);
   }
 
-  // Add jitter (±20%)
-  const jitter = interval * RECONNECT_JITTER_RATIO * (Math.random() * 2 - 1);
+  // Add jitter (±20% by default)
+  const jitter = interval * jitterRatio * (Math.random() * 2 - 1);
   interval = Math.min(interval + jitter, maxInterval);
 
   return Math.max(0, Math.min(interval, maxInterval));
 }
 
+/**
+ * Fibonacci multiplier for a 0-based attempt: 1, 2, 3, 5, 8, ...
+ */
+function fibonacci(attempt: number): number {
+  let previous = 1;
+  let current = 1;
+  for (let i = 0; i < attempt; i++) {
+    [previous, current] = [current, previous + current];
+  }
+  return current;
+}
+
 /**
  * Normalize socket options with default values
  *
@@ -71,6 +128,10 @@ export function calculateReconnectInterval(
  * @returns Normalized options with all fields required and defaults applied
  */
 export function normalizeOptions(options: SocketOptions): NormalizedSocketOptions {
+  if (Array.isArray(options.url) && options.url.length === 0) {
+    throw new Error('At least one URL is required');
+  }
+
   // Handle reconnect config: boolean or ReconnectConfig
   const reconnectOption = options.reconnect;
   const reconnectConfig: ReconnectConfig =
@@ -78,6 +139,27 @@ export function normalizeOptions(options: SocketOptions): NormalizedSocketOption
       ? { enabled: reconnectOption }
       : (reconnectOption ?? { enabled: true });
 
+  // Handle circuit breaker config: boolean or CircuitBreakerConfig (disabled unless provided)
+  const circuitBreakerOption = options.circuitBreaker;
+  const circuitBreakerConfig: CircuitBreakerConfig =
+    typeof circuitBreakerOption === 'boolean'
+      ? { enabled: circuitBreakerOption }
+      : (circuitBreakerOption ?? { enabled: false });
+
+  // Handle network config: boolean or NetworkConfig (disabled unless provided)
+  const networkOption = options.network;
+  const networkConfig: NetworkConfig =
+    typeof networkOption === 'boolean'
+      ? { enabled: networkOption }
+      : (networkOption ?? { enabled: false });
+
+  // Handle heartbeat config: boolean or HeartbeatConfig (disabled unless provided)
+  const heartbeatOption = options.heartbeat;
+  const heartbeatConfig: HeartbeatConfig =
+    typeof heartbeatOption === 'boolean'
+      ? { enabled: heartbeatOption }
+      : (heartbeatOption ?? { enabled: false });
+
   return {
     reconnect: {
       enabled: reconnectConfig.enabled ?? true,
@@ -85,6 +167,56 @@ export function normalizeOptions(options: SocketOptions): NormalizedSocketOption
       interval: reconnectConfig.interval ?? DEFAULT_RECONNECT_INTERVAL,
       backoff: reconnectConfig.backoff ?? 'exponential',
       maxInterval: reconnectConfig.maxInterval ?? DEFAULT_MAX_RECONNECT_INTERVAL,
+      jitter: reconnectConfig.jitter ?? RECONNECT_JITTER_RATIO,
+      fatalCodes: reconnectConfig.fatalCodes ?? [],
+      immediateCodes: reconnectConfig.immediateCodes ?? [],
+      shouldReconnect: reconnectConfig.shouldReconnect,
+    },
+    circuitBreaker: {
+      enabled: circuitBreakerConfig.enabled ?? true,
+      threshold: circuitBreakerConfig.threshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+      window: circuitBreakerConfig.window ?? DEFAULT_CIRCUIT_BREAKER_WINDOW,
+      cooldown: circuitBreakerConfig.cooldown ?? DEFAULT_CIRCUIT_BREAKER_COOLDOWN,
+    },
+    network: {
+      enabled: networkConfig.enabled ?? true,
+      environment: networkConfig.environment ?? createBrowserEnvironment(),
+      hiddenTimeout: networkConfig.hiddenTimeout ?? DEFAULT_NETWORK_HIDDEN_TIMEOUT,
+    },
+    heartbeat: {
+      enabled: heartbeatConfig.enabled ?? true,
+      interval: heartbeatConfig.interval ?? DEFAULT_HEARTBEAT_INTERVAL,
+      timeout: heartbeatConfig.timeout ?? DEFAULT_HEARTBEAT_TIMEOUT,
+      message: heartbeatConfig.message ?? DEFAULT_HEARTBEAT_MESSAGE,
+      isPong: heartbeatConfig.isPong ?? (data => data === DEFAULT_HEARTBEAT_PONG),
+    },
+    request: {
+      idKey: options.request?.idKey ?? DEFAULT_REQUEST_ID_KEY,
+      timeout: options.request?.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+      generateId: options.request?.generateId,
+      deliverReplies: options.request?.deliverReplies ?? false,
+    },
+    subscriptions: {
+      subscribeMessage:
+        options.subscriptions?.subscribeMessage ?? (topic => ({ type: 'subscribe', topic })),
+      unsubscribeMessage:
+        options.subscriptions?.unsubscribeMessage ?? (topic => ({ type: 'unsubscribe', topic })),
+      topicOf:
+        options.subscriptions?.topicOf ??
+        (message =>
+          typeof message === 'object' &&
+          message !== null &&
+          typeof (message as { topic?: unknown }).topic === 'string'
+            ? (message as { topic: string }).topic
+            : undefined),
+    },
+    router: {
+      key: options.router?.key ?? DEFAULT_ROUTER_KEY,
+    },
+    validate: {
+      incoming: options.validate?.incoming,
+      outgoing: options.validate?.outgoing,
+      rejectInvalidSend: options.validate?.rejectInvalidSend ?? false,
     },
     buffer: {
       receive: {
@@ -97,7 +229,85 @@ export function normalizeOptions(options: SocketOptions): NormalizedSocketOption
       },
     },
     url: options.url,
+    failover: {
+      strategy: options.failover?.strategy ?? DEFAULT_FAILOVER_STRATEGY,
+      probeInterval: options.failover?.probeInterval ?? DEFAULT_FAILOVER_PROBE_INTERVAL,
+    },
     protocols: options.protocols,
+    transport: options.transport ?? 'websocket',
+    fallback: {
+      transports: options.fallback?.transports ?? [],
+      after: options.fallback?.after ?? DEFAULT_FALLBACK_AFTER,
+    },
+    connectTimeout: options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT,
+    beforeConnect: options.beforeConnect,
+    binaryType: options.binaryType ?? DEFAULT_BINARY_TYPE,
+    codec: options.codec ?? 'json',
+  };
+}
+
+/**
+ * Compute round-trip time statistics
+ *
+ * @param samples - Round-trip times in milliseconds, oldest first (at least one)
+ * @returns Current, min, average, 95th percentile (nearest rank) and jitter
+ */
+export function calculateLatencyStats(samples: number[]): LatencyStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const sum = samples.reduce((total, rtt) => total + rtt, 0);
+  let jitter = 0;
+  for (let i = 1; i < samples.length; i++) {
+    jitter += Math.abs(samples[i] - samples[i - 1]);
+  }
+
+  return {
+    current: samples[samples.length - 1],
+    min: sorted[0],
+    avg: sum / samples.length,
+    p95: sorted[Math.ceil(sorted.length * 0.95) - 1],
+    jitter: samples.length > 1 ? jitter / (samples.length - 1) : 0,
+    samples: samples.length,
+  };
+}
+
+/**
+ * Create the default NetworkEnvironment backed by browser globals
+ *
+ * Outside a browser the status is always online and visible and no events fire.
+ *
+ * @returns Environment reading navigator.onLine and document.visibilityState
+ */
+export function createBrowserEnvironment(): NetworkEnvironment {
+  const hasWindow = typeof window !== 'undefined' && typeof window.addEventListener === 'function';
+  const hasDocument =
+    typeof document !== 'undefined' && typeof document.addEventListener === 'function';
+
+  return {
+    isOnline: () => typeof navigator === 'undefined' || navigator.onLine !== false,
+    isVisible: () => !hasDocument || document.visibilityState !== 'hidden',
+    subscribe(listener) {
+      const onOnline = () => listener('online');
+      const onOffline = () => listener('offline');
+      const onVisibilityChange = () =>
+        listener(document.visibilityState === 'hidden' ? 'hidden' : 'visible');
+
+      if (hasWindow) {
+        window.addEventListener('online', onOnline);
+        window.addEventListener('offline', onOffline);
+      }
+      if (hasDocument) {
+        document.addEventListener('visibilitychange', onVisibilityChange);
+      }
+      return () => {
+        if (hasWindow) {
+          window.removeEventListener('online', onOnline);
+          window.removeEventListener('offline', onOffline);
+        }
+        if (hasDocument) {
+          document.removeEventListener('visibilitychange', onVisibilityChange);
+        }
+      };
+    },
   };
 }
 
@@ -109,32 +319,59 @@ export function normalizeOptions(options: SocketOptions): NormalizedSocketOption
 export function createState<Incoming = string>(): InternalSocketState<Incoming> {
   return {
     ws: null,
+    connectionState: 'idle',
     isManualClose: false,
     reconnectCount: 0,
     reconnectTimer: null,
-    messageBuffer: [],
+    connectTimer: null,
+    lastReconnectInterval: null,
+    lastError: null,
+    lastClose: null,
+    transportIndex: 0,
+    transportFailures: 0,
+    circuitState: 'closed',
+    circuitFailures: [],
+    hiddenTimer: null,
+    hiddenSuspended: false,
+    endpoints: [],
+    activeEndpoint: null,
+    probeTimer: null,
+    probeSocket: null,
+    heartbeatTimer: null,
+    heartbeatTimeoutTimer: null,
+    lastPingTs: null,
+    rttSamples: [],
+    requestCounter: 0,
+    pendingRequests: new Map(),
+    subscriptions: new Map(),
     eventQueue: [],
     messageQueue: [],
+    sendReceipts: [],
     messageCallbacks: new Set(),
+    routeCallbacks: new Map(),
+    unknownCallbacks: new Set(),
     eventCallbacks: new Set(),
     abortController: null,
-    activeMessageIterators: 0,
-    activeEventIterators: 0,
-    messageResolvers: new Set(),
-    eventResolvers: new Set(),
+    messageSubscribers: new Set(),
+    eventSubscribers: new Set(),
   };
 }
 
 /**
  * Parse message data, attempting JSON parse first, falling back to string
  *
- * Tries to parse the input as JSON. If parsing fails, returns the string as-is.
+ * Tries to parse text frames as JSON. If parsing fails, returns the string as-is.
  * This allows the function to work with both JSON and plain string messages.
+ * Binary frames (ArrayBuffer, Blob) are returned intact.
  *
- * @param data - Raw message data as string
- * @returns Parsed message (JSON object/array if valid JSON, otherwise string)
+ * @param data - Raw message data as received from the WebSocket
+ * @returns Parsed message (JSON object/array if valid JSON, otherwise string or binary data)
  */
-export function parseMessage<Incoming>(data: string): Incoming {
+export function parseMessage<Incoming>(data: WebSocketData): Incoming {
+  if (typeof data !== 'string') {
+    return data as unknown as Incoming;
+  }
+
   try {
     return JSON.parse(data) as Incoming;
   } catch {
@@ -144,18 +381,78 @@ export function parseMessage<Incoming>(data: string): Incoming {
 }
 
 /**
- * Serialize outgoing message data to string, ArrayBuffer, or Blob
+ * Run a Standard Schema or type guard against a message
  *
- * Converts objects to JSON strings, leaves other types as-is.
+ * A type guard returning false and a validator that throws or rejects are
+ * reported as a single issue, so callers only deal with StandardSchemaResult.
+ *
+ * @param validator - Standard Schema or type guard from ValidateConfig
+ * @param value - Message to check
+ * @returns The validation result, or a Promise of it for async schemas
+ */
+export function validateMessage(
+  validator: MessageValidator,
+  value: unknown
+): StandardSchemaResult | Promise<StandardSchemaResult> {
+  const toIssues = (error: unknown): StandardSchemaResult => ({
+    issues: [{ message: error instanceof Error ? error.message : String(error) }],
+  });
+
+  try {
+    if (typeof validator === 'function') {
+      return validator(value)
+        ? { value }
+        : { issues: [{ message: 'Type guard rejected message' }] };
+    }
+    const result = validator['~standard'].validate(value);
+    return isPromiseLike(result) ? Promise.resolve(result).then(r => r, toIssues) : result;
+  } catch (error) {
+    return toIssues(error);
+  }
+}
+
+/**
+ * Check whether a value is a Promise or other thenable
+ *
+ * @param value - Value returned by a sync-or-async hook
+ * @returns true if the value must be awaited
+ */
+export function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  );
+}
+
+/**
+ * Check whether data is a binary payload (ArrayBuffer, typed array/DataView, or Blob)
+ *
+ * @param data - Data to check
+ * @returns true if data should be sent or delivered as a binary frame
+ */
+export function isBinaryData(data: unknown): data is ArrayBuffer | ArrayBufferView | Blob {
+  return (
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    (typeof Blob !== 'undefined' && data instanceof Blob)
+  );
+}
+
+/**
+ * Serialize outgoing message data to string or binary data
+ *
+ * Converts objects to JSON strings, leaves strings and binary data (ArrayBuffer,
+ * typed arrays, Blob) as-is.
  *
  * @param data - Outgoing message data
  * @returns Serialized message ready for WebSocket.send()
  */
-export function serializeMessage<Outgoing>(data: Outgoing): string | ArrayBuffer | Blob {
-  if (typeof data === 'object' && !(data instanceof ArrayBuffer) && !(data instanceof Blob)) {
+export function serializeMessage<Outgoing>(data: Outgoing): WebSocketData {
+  if (typeof data === 'object' && data !== null && !isBinaryData(data)) {
     return JSON.stringify(data);
   }
-  return data as string | ArrayBuffer | Blob;
+  return data as WebSocketData;
 }
 
 /**
@@ -208,7 +505,7 @@ export function handleBufferOverflow<T>(
 export function createDroppedEvent(
   reason: 'buffer_full' | 'buffer_overflow' | 'send_queue_full' | 'send_queue_overflow',
   policy: BufferOverflowPolicy,
-  droppedMessage: string | undefined,
+  droppedMessage: unknown,
   bufferSize: number,
   bufferType: 'receive' | 'send'
 ): SocketEvent {
@@ -221,6 +518,63 @@ export function createDroppedEvent(
   });
 }
 
+/**
+ * Check whether an events() iterator takes an event
+ *
+ * A throwing filter is logged and counts as a rejection, like errors in callbacks.
+ *
+ * @param subscriber - Event iterator with its types and filter options
+ * @param event - Event being emitted
+ * @returns True if the event should be buffered for this iterator
+ */
+export function acceptsEvent(subscriber: EventSubscriber, event: SocketEvent): boolean {
+  if (subscriber.types && !subscriber.types.has(event.type)) {
+    return false;
+  }
+  try {
+    return subscriber.filter?.(event) ?? true;
+  } catch (error) {
+    console.error('Error in events() filter:', error);
+    return false;
+  }
+}
+
+/**
+ * Wake up all iterators waiting on a resolver set
+ *
+ * @param resolvers - Set of resolver functions registered by waitForItems()
+ */
+export function notifyResolvers(resolvers: Set<() => void>): void {
+  // Copy the set to avoid issues if new resolvers are added during iteration
+  const pending = Array.from(resolvers);
+  resolvers.clear();
+  pending.forEach(resolve => resolve());
+}
+
+/**
+ * Check whether an iterator should finish in the given connection state
+ *
+ * Closed, failed and disposed sockets end every iterator. Non-persistent
+ * iterators also end as soon as the connection drops.
+ *
+ * @param connectionState - Current connection state
+ * @param persistent - Whether the iterator survives reconnects
+ * @returns True if the iterator should finish after draining its buffer
+ */
+export function isIteratorClosed(connectionState: ConnectionState, persistent: boolean): boolean {
+  switch (connectionState) {
+    case 'closed':
+    case 'failed':
+    case 'disposed':
+      return true;
+    case 'reconnecting':
+    case 'closing':
+      return !persistent;
+    default:
+      return false;
+  }
+}
+
 /**
  * Wait for new items using event-based notification with polling fallback
  *
@@ -0,0 +1,119 @@
+/**
+ * circuit-breaker-handler.test.ts
+ *
+ * Purpose: Unit tests for CircuitBreakerHandler class
+ *
+ * Test Coverage:
+ * - Opening after threshold failures within the window
+ * - Expiring failures that fall outside the window
+ * - Half-open attempt after the cooldown, re-opening on failure and closing on success
+ * - circuitChange event emission
+ * - No-op behavior while disabled
+ *
+ * Boundaries:
+ * - Integration tests for reconnect timing with the breaker are in integration/circuit-breaker.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreakerHandler } from '../../src/handlers/circuit-breaker-handler.js';
+import { EventHandler } from '../../src/handlers/event-handler.js';
+import { createState, normalizeOptions } from '../../src/utils.js';
+import type { CircuitBreakerConfig } from '../../src/types.js';
+
+describe('CircuitBreakerHandler', () => {
+  let state: ReturnType<typeof createState<string>>;
+  let eventHandler: EventHandler<string>;
+
+  const createHandler = (circuitBreaker: boolean | CircuitBreakerConfig = true) =>
+    new CircuitBreakerHandler<string>(
+      state,
+      normalizeOptions({
+        url: 'ws://test.com',
+        circuitBreaker:
+          typeof circuitBreaker === 'boolean'
+            ? circuitBreaker
+            : { threshold: 3, window: 1000, cooldown: 5000, ...circuitBreaker },
+      }),
+      eventHandler
+    );
+
+  const circuitEvents = () =>
+    state.eventQueue.filter(event => event.type === 'circuitChange').map(event => event.meta);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    state = createState<string>();
+    eventHandler = new EventHandler<string>(state);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after threshold failures within the window', () => {
+    const handler = createHandler({});
+
+    expect(handler.recordFailure()).toBeNull();
+    expect(handler.recordFailure()).toBeNull();
+    expect(handler.recordFailure()).toBe(5000);
+
+    expect(state.circuitState).toBe('open');
+    expect(circuitEvents()).toEqual([{ from: 'closed', to: 'open', failures: 3 }]);
+  });
+
+  it('should not count failures outside the window', () => {
+    const handler = createHandler({});
+
+    handler.recordFailure();
+    handler.recordFailure();
+    vi.advanceTimersByTime(1000);
+
+    expect(handler.recordFailure()).toBeNull();
+    expect(state.circuitState).toBe('closed');
+  });
+
+  it('should re-open when the half-open attempt fails', () => {
+    const handler = createHandler({ threshold: 1 });
+    handler.recordFailure();
+
+    handler.beforeAttempt();
+    expect(state.circuitState).toBe('half-open');
+
+    expect(handler.recordFailure()).toBe(5000);
+    expect(circuitEvents().map(meta => meta?.to)).toEqual(['open', 'half-open', 'open']);
+  });
+
+  it('should close and forget failures when the half-open attempt succeeds', () => {
+    const handler = createHandler({ threshold: 2 });
+    handler.recordFailure();
+    handler.recordFailure();
+    handler.beforeAttempt();
+
+    handler.recordSuccess();
+
+    expect(state.circuitState).toBe('closed');
+    expect(state.circuitFailures).toEqual([]);
+    expect(circuitEvents().at(-1)).toEqual({ from: 'half-open', to: 'closed', failures: 0 });
+  });
+
+  it('should keep counting failures across successes while closed', () => {
+    const handler = createHandler({});
+    handler.recordFailure();
+    handler.recordSuccess();
+    handler.recordFailure();
+
+    expect(handler.recordFailure()).toBe(5000);
+  });
+
+  it('should do nothing when disabled', () => {
+    const handler = createHandler(false);
+
+    for (let i = 0; i < 10; i++) {
+      expect(handler.recordFailure()).toBeNull();
+    }
+    handler.beforeAttempt();
+
+    expect(state.circuitState).toBe('closed');
+    expect(circuitEvents()).toEqual([]);
+  });
+});
@@ -11,6 +11,8 @@
  * - Manual close vs automatic close
  * - AbortController cleanup
  * - Event emission for connection events
+ * - Connection state transitions and illegal transition guards
+ * - Reconnecting after close() and terminal dispose()
  *
  * Boundaries:
  * - Integration tests for reconnection logic are in integration/reconnection.test.ts
@@ -21,6 +23,13 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ConnectionHandler } from '../../src/handlers/connection-handler.js';
 import { EventHandler } from '../../src/handlers/event-handler.js';
 import { MessageHandler } from '../../src/handlers/message-handler.js';
+import { HeartbeatHandler } from '../../src/handlers/heartbeat-handler.js';
+import { RequestHandler } from '../../src/handlers/request-handler.js';
+import { EndpointHandler } from '../../src/handlers/endpoint-handler.js';
+import { CircuitBreakerHandler } from '../../src/handlers/circuit-breaker-handler.js';
+import { TransportHandler } from '../../src/handlers/transport-handler.js';
+import { NetworkHandler } from '../../src/handlers/network-handler.js';
+import { SubscriptionHandler } from '../../src/handlers/subscription-handler.js';
 import { createState, normalizeOptions } from '../../src/utils.js';
 import type { NormalizedSocketOptions } from '../../src/types.js';
 import {
@@ -34,9 +43,31 @@ describe('ConnectionHandler', () => {
   let handler: ConnectionHandler<string, string>;
   let eventHandler: EventHandler<string>;
   let messageHandler: MessageHandler<string, string>;
+  let heartbeatHandler: HeartbeatHandler<string>;
+  let requestHandler: RequestHandler<string, string>;
+  let endpointHandler: EndpointHandler<string>;
+  let circuitBreakerHandler: CircuitBreakerHandler<string>;
+  let transportHandler: TransportHandler<string>;
+  let networkHandler: NetworkHandler<string>;
+  let subscriptionHandler: SubscriptionHandler<string, string>;
   let state: ReturnType<typeof createState<string>>;
   let opts: NormalizedSocketOptions;
 
+  const createHandler = () =>
+    new ConnectionHandler<string, string>(
+      state,
+      opts,
+      eventHandler,
+      messageHandler,
+      heartbeatHandler,
+      requestHandler,
+      endpointHandler,
+      circuitBreakerHandler,
+      transportHandler,
+      networkHandler,
+      subscriptionHandler
+    );
+
   beforeEach(() => {
     vi.useFakeTimers();
     setupWebSocketMock();
@@ -44,7 +75,14 @@ describe('ConnectionHandler', () => {
     eventHandler = new EventHandler<string>(state);
     opts = normalizeOptions({ url: 'ws://test.com' });
     messageHandler = new MessageHandler<string, string>(state, opts, eventHandler);
-    handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+    heartbeatHandler = new HeartbeatHandler<string>(state, opts, eventHandler);
+    requestHandler = new RequestHandler<string, string>(state, opts, messageHandler);
+    transportHandler = new TransportHandler<string>(state, opts, eventHandler);
+    endpointHandler = new EndpointHandler<string>(state, opts, eventHandler, transportHandler);
+    circuitBreakerHandler = new CircuitBreakerHandler<string>(state, opts, eventHandler);
+    networkHandler = new NetworkHandler<string>(state, opts, eventHandler);
+    subscriptionHandler = new SubscriptionHandler<string, string>(state, opts, messageHandler);
+    handler = createHandler();
   });
 
   afterEach(() => {
@@ -66,7 +104,7 @@ describe('ConnectionHandler', () => {
         url: 'ws://test.com',
         protocols: ['chat', 'json'],
       });
-      handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+      handler = createHandler();
 
       handler.connect();
       await vi.runAllTimersAsync();
@@ -109,7 +147,13 @@ describe('ConnectionHandler', () => {
       expect(flushSpy).toHaveBeenCalled();
     });
 
-    it('should handle non-string message data', async () => {
+    it('should set binaryType on WebSocket', async () => {
+      handler.connect();
+
+      expect(createdWebSockets[0].binaryType).toBe('arraybuffer');
+    });
+
+    it('should pass binary message data through intact', async () => {
       const receiveSpy = vi.spyOn(messageHandler, 'receive');
 
       handler.connect();
@@ -123,10 +167,8 @@ describe('ConnectionHandler', () => {
       ws.onmessage?.(mockEvent);
       await vi.runAllTimersAsync();
 
-      // Should convert to string and call receive (covers line 68)
-      expect(receiveSpy).toHaveBeenCalled();
-      const receivedData = receiveSpy.mock.calls[0][0];
-      expect(typeof receivedData).toBe('string');
+      // Should call receive with the original ArrayBuffer
+      expect(receiveSpy).toHaveBeenCalledWith(mockEvent.data);
     });
 
     it('should emit error event on WebSocket error', async () => {
@@ -189,7 +231,7 @@ describe('ConnectionHandler', () => {
 
       // Disable reconnect to prevent infinite loop
       opts.reconnect.enabled = false;
-      handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+      handler = createHandler();
 
       const eventCallback = vi.fn();
       state.eventCallbacks.add(eventCallback);
@@ -283,7 +325,7 @@ describe('ConnectionHandler', () => {
       opts.reconnect.enabled = true;
       opts.reconnect.attempts = 3;
       opts.reconnect.interval = 100;
-      handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+      handler = createHandler();
 
       handler.connect();
       await vi.runAllTimersAsync();
@@ -298,7 +340,7 @@ describe('ConnectionHandler', () => {
 
     it('should not reconnect when manually closed', async () => {
       opts.reconnect.enabled = true;
-      handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+      handler = createHandler();
 
       handler.connect();
       await vi.runAllTimersAsync();
@@ -310,11 +352,34 @@ describe('ConnectionHandler', () => {
       expect(state.reconnectTimer).toBeNull();
     });
 
+    it('should reconnect automatically again after close() then connect()', async () => {
+      opts.reconnect.enabled = true;
+      opts.reconnect.interval = 100;
+      handler = createHandler();
+
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      handler.close();
+      await vi.advanceTimersByTimeAsync(0);
+
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(state.isManualClose).toBe(false);
+
+      createdWebSockets[1].close(1006);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(state.connectionState).toBe('reconnecting');
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(createdWebSockets).toHaveLength(3);
+      expect(state.connectionState).toBe('open');
+    });
+
     it('should respect max reconnection attempts', async () => {
       opts.reconnect.enabled = true;
       opts.reconnect.attempts = 2;
       opts.reconnect.interval = 100;
-      handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+      handler = createHandler();
 
       handler.connect();
       await vi.runAllTimersAsync();
@@ -337,7 +402,7 @@ describe('ConnectionHandler', () => {
       opts.reconnect.attempts = 3;
       opts.reconnect.interval = 100;
       state.reconnectCount = 3; // Already at max attempts
-      handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+      handler = createHandler();
 
       const eventCallback = vi.fn();
       state.eventCallbacks.add(eventCallback);
@@ -357,7 +422,7 @@ describe('ConnectionHandler', () => {
     it('should emit reconnect event', async () => {
       opts.reconnect.enabled = true;
       opts.reconnect.interval = 100;
-      handler = new ConnectionHandler<string, string>(state, opts, eventHandler, messageHandler);
+      handler = createHandler();
 
       const eventCallback = vi.fn();
       state.eventCallbacks.add(eventCallback);
@@ -376,4 +441,172 @@ describe('ConnectionHandler', () => {
       );
     });
   });
+
+  describe('state machine', () => {
+    const stateChanges = () =>
+      state.eventQueue
+        .filter(event => event.type === 'stateChange')
+        .map(event => `${event.meta?.from}→${event.meta?.to}`);
+
+    it('should move from idle through connecting to open', async () => {
+      expect(state.connectionState).toBe('idle');
+
+      handler.connect();
+      expect(state.connectionState).toBe('connecting');
+
+      await vi.runAllTimersAsync();
+      expect(state.connectionState).toBe('open');
+      expect(stateChanges()).toEqual(['idle→connecting', 'connecting→open']);
+    });
+
+    it('should reject connect() while connecting or open', async () => {
+      handler.connect();
+      expect(() => handler.connect()).toThrow('Invalid state transition: connecting → connecting');
+
+      await vi.runAllTimersAsync();
+      expect(() => handler.connect()).toThrow('Invalid state transition: open → connecting');
+      expect(createdWebSockets.length).toBe(1);
+    });
+
+    it('should move through closing to closed on manual close', async () => {
+      handler.connect();
+      await vi.runAllTimersAsync();
+
+      handler.close();
+      expect(state.connectionState).toBe('closing');
+
+      await vi.runAllTimersAsync();
+      expect(state.connectionState).toBe('closed');
+      expect(state.eventQueue.at(-1)?.meta).toEqual({
+        from: 'closing',
+        to: 'closed',
+        reason: 'manual',
+      });
+    });
+
+    it('should close directly from idle', () => {
+      handler.close();
+
+      expect(state.connectionState).toBe('closed');
+      handler.close();
+      expect(stateChanges()).toEqual(['idle→closed']);
+    });
+
+    it('should move to reconnecting and back to connecting on unexpected close', async () => {
+      opts.reconnect.enabled = true;
+      opts.reconnect.attempts = 3;
+      opts.reconnect.interval = 100;
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      createdWebSockets[0].close(1006);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(state.connectionState).toBe('reconnecting');
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(state.connectionState).toBe('open');
+      expect(stateChanges()).toEqual([
+        'idle→connecting',
+        'connecting→open',
+        'open→reconnecting',
+        'reconnecting→connecting',
+        'connecting→open',
+      ]);
+    });
+
+    it('should move to closed on unexpected close when reconnect is disabled', async () => {
+      opts.reconnect.enabled = false;
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      createdWebSockets[0].close(1006);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(state.connectionState).toBe('closed');
+    });
+
+    it('should move to failed when reconnect attempts are exhausted', async () => {
+      opts.reconnect.enabled = true;
+      opts.reconnect.attempts = 1;
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      state.reconnectCount = 1;
+
+      createdWebSockets[0].close(1006);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(state.connectionState).toBe('failed');
+      expect(state.eventQueue.at(-2)?.meta).toEqual({
+        from: 'open',
+        to: 'failed',
+        reason: 'reconnect_exhausted',
+      });
+      expect(state.eventQueue.at(-1)).toMatchObject({
+        type: 'failed',
+        meta: {
+          reason: 'reconnect_exhausted',
+          attempts: 1,
+          closeEvent: { code: 1006, reason: '', wasClean: true },
+        },
+      });
+    });
+  });
+
+  describe('dispose', () => {
+    it('should close the socket without emitting close and move to disposed', async () => {
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      const ws = createdWebSockets[0];
+      const eventCallback = vi.fn();
+      state.eventCallbacks.add(eventCallback);
+
+      handler.dispose();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(ws.readyState).toBe(MockWebSocket.CLOSED);
+      expect(state.ws).toBeNull();
+      expect(state.connectionState).toBe('disposed');
+      expect(eventCallback).toHaveBeenCalledTimes(1);
+      expect(eventCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'stateChange',
+          meta: expect.objectContaining({ to: 'disposed' }),
+        })
+      );
+    });
+
+    it('should clear callbacks and reject pending requests', async () => {
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      state.messageCallbacks.add(vi.fn());
+      state.eventCallbacks.add(vi.fn());
+      const reply = requestHandler.request({ type: 'ping' } as unknown as string);
+
+      handler.dispose();
+
+      await expect(reply).rejects.toThrow('Socket disposed');
+      expect(state.messageCallbacks.size).toBe(0);
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+
+    it('should reject connect() after dispose', () => {
+      handler.dispose();
+
+      expect(() => handler.connect()).toThrow('Invalid state transition: disposed → connecting');
+      expect(createdWebSockets).toHaveLength(0);
+    });
+
+    it('should ignore close() and repeated dispose()', async () => {
+      handler.connect();
+      await vi.advanceTimersByTimeAsync(0);
+      handler.close();
+      handler.dispose();
+      await vi.advanceTimersByTimeAsync(0);
+
+      handler.close();
+      handler.dispose();
+
+      expect(state.connectionState).toBe('disposed');
+    });
+  });
 });
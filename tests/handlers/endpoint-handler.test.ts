@@ -0,0 +1,205 @@
+/**
+ * endpoint-handler.test.ts
+ *
+ * Purpose: Unit tests for EndpointHandler class
+ *
+ * Test Coverage:
+ * - Endpoint selection for priority, round-robin and random strategies
+ * - Per-endpoint backoff after failures and reset on success
+ * - failover event emission when the active endpoint changes
+ * - Primary probing while connected to a fallback endpoint
+ *
+ * Boundaries:
+ * - Integration tests for failover across reconnects are in integration/failover.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EndpointHandler } from '../../src/handlers/endpoint-handler.js';
+import { EventHandler } from '../../src/handlers/event-handler.js';
+import { TransportHandler } from '../../src/handlers/transport-handler.js';
+import { createState, normalizeOptions } from '../../src/utils.js';
+import type { FailoverStrategy } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('EndpointHandler', () => {
+  const urls = ['ws://a.test', 'ws://b.test', 'ws://c.test'];
+  let state: ReturnType<typeof createState<string>>;
+  let eventHandler: EventHandler<string>;
+
+  const createHandler = (strategy: FailoverStrategy = 'priority', probeInterval = 1000) => {
+    const opts = normalizeOptions({
+      url: urls,
+      failover: { strategy, probeInterval },
+      reconnect: { interval: 100, backoff: 'linear' },
+    });
+    return new EndpointHandler<string>(
+      state,
+      opts,
+      eventHandler,
+      new TransportHandler<string>(state, opts, eventHandler)
+    );
+  };
+
+  const failoverEvents = () => state.eventQueue.filter(event => event.type === 'failover');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+    state = createState<string>();
+    eventHandler = new EventHandler<string>(state);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    cleanupWebSocketMock();
+  });
+
+  it('should build endpoint state from the url list', () => {
+    createHandler();
+
+    expect(state.endpoints).toEqual(urls.map(url => ({ url, failures: 0, retryAt: 0 })));
+  });
+
+  it('should prefer the first healthy endpoint with priority strategy', () => {
+    const handler = createHandler('priority');
+
+    expect(handler.select()).toBe('ws://a.test');
+    handler.reportFailure();
+    expect(handler.select()).toBe('ws://b.test');
+    handler.reportFailure();
+    expect(handler.select()).toBe('ws://c.test');
+  });
+
+  it('should return to the primary once its backoff expires', () => {
+    const handler = createHandler('priority');
+    handler.select();
+    handler.reportFailure();
+    expect(handler.select()).toBe('ws://b.test');
+
+    vi.advanceTimersByTime(300);
+
+    expect(handler.select()).toBe('ws://a.test');
+  });
+
+  it('should pick the endpoint that recovers first when all are backing off', () => {
+    const handler = createHandler('priority');
+    const now = Date.now();
+    state.endpoints[0].retryAt = now + 50;
+    state.endpoints[1].retryAt = now + 5;
+    state.endpoints[2].retryAt = now + 30;
+
+    expect(handler.select()).toBe('ws://b.test');
+  });
+
+  it('should move to the next endpoint after a failure with round-robin strategy', () => {
+    const handler = createHandler('round-robin');
+
+    expect(handler.select()).toBe('ws://a.test');
+    handler.reportSuccess();
+    expect(handler.select()).toBe('ws://a.test');
+
+    handler.reportFailure();
+    expect(handler.select()).toBe('ws://b.test');
+    handler.reportFailure();
+    expect(handler.select()).toBe('ws://c.test');
+
+    vi.advanceTimersByTime(1000);
+    handler.reportFailure();
+    expect(handler.select()).toBe('ws://a.test');
+  });
+
+  it('should pick a random healthy endpoint with random strategy', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const handler = createHandler('random');
+
+    // Shuffle with Math.random() === 0 yields [b, c, a]
+    expect(handler.select()).toBe('ws://b.test');
+    handler.reportFailure();
+    expect(handler.select()).toBe('ws://c.test');
+  });
+
+  it('should emit failover events when the active endpoint changes', () => {
+    const handler = createHandler('priority');
+    handler.select();
+    expect(failoverEvents()).toHaveLength(0);
+
+    handler.reportFailure();
+    handler.select();
+
+    expect(failoverEvents()[0].meta).toEqual({ from: 'ws://a.test', to: 'ws://b.test' });
+  });
+
+  it('should reset backoff on success', () => {
+    const handler = createHandler('priority');
+    handler.select();
+    handler.reportFailure();
+    state.activeEndpoint = 0;
+
+    handler.reportSuccess();
+
+    expect(state.endpoints[0]).toEqual({ url: 'ws://a.test', failures: 0, retryAt: 0 });
+  });
+
+  describe('probe', () => {
+    const connectToFallback = (handler: EndpointHandler<string>) => {
+      handler.select();
+      handler.reportFailure();
+      handler.select();
+    };
+
+    it('should probe the primary and report it available', async () => {
+      const handler = createHandler('priority', 1000);
+      const onPrimaryAvailable = vi.fn();
+      connectToFallback(handler);
+
+      handler.startProbe(onPrimaryAvailable);
+      vi.advanceTimersByTime(1000);
+      expect(createdWebSockets[0].url).toBe('ws://a.test');
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(onPrimaryAvailable).toHaveBeenCalledTimes(1);
+      expect(state.probeSocket).toBeNull();
+      expect(state.endpoints[0].retryAt).toBe(0);
+    });
+
+    it('should probe again when the primary is still down', async () => {
+      const handler = createHandler('priority', 1000);
+      const onPrimaryAvailable = vi.fn();
+      connectToFallback(handler);
+      handler.startProbe(onPrimaryAvailable);
+
+      vi.advanceTimersByTime(1000);
+      const probe = createdWebSockets[0];
+      probe.onopen = null;
+      probe.onclose?.(new CloseEvent('close', { code: 1006 }));
+
+      expect(state.probeTimer).not.toBeNull();
+      expect(onPrimaryAvailable).not.toHaveBeenCalled();
+    });
+
+    it('should not probe while connected to the primary or with other strategies', () => {
+      const priority = createHandler('priority');
+      priority.select();
+      priority.startProbe(vi.fn());
+      expect(state.probeTimer).toBeNull();
+
+      const roundRobin = createHandler('round-robin');
+      connectToFallback(roundRobin);
+      roundRobin.startProbe(vi.fn());
+      expect(state.probeTimer).toBeNull();
+    });
+
+    it('should close a pending probe on stop', () => {
+      const handler = createHandler('priority', 1000);
+      connectToFallback(handler);
+      handler.startProbe(vi.fn());
+      vi.advanceTimersByTime(1000);
+
+      handler.stopProbe();
+
+      expect(state.probeSocket).toBeNull();
+      expect(createdWebSockets[0].readyState).toBe(WebSocket.CLOSING);
+    });
+  });
+});
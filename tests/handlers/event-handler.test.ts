@@ -5,20 +5,22 @@
  *
  * Test Coverage:
  * - Event emission to callbacks
- * - Event queueing for iterators
+ * - Event fan-out to every active iterator
+ * - Skipping iterators whose types or filter reject the event
  * - Event queue size limit (MAX_RECENT_EVENTS)
  * - Callback error handling
  * - Resolver notification for waiting iterators
+ * - waitFor() matching, timeout, abort and listener cleanup
  *
  * Boundaries:
  * - Integration tests for event-based API are in integration/api-callbacks.test.ts
  * - Integration tests for generator-based API are in integration/api-generators.test.ts
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { EventHandler } from '../../src/handlers/event-handler.js';
 import { createState } from '../../src/utils.js';
-import type { SocketEvent } from '../../src/types.js';
+import type { SocketEvent, EventSubscriber } from '../../src/types.js';
 import { MAX_RECENT_EVENTS } from '../../src/constants.js';
 
 describe('EventHandler', () => {
@@ -30,6 +32,12 @@ describe('EventHandler', () => {
     handler = new EventHandler<string>(state);
   });
 
+  const addSubscriber = (options: Pick<EventSubscriber, 'types' | 'filter'> = {}) => {
+    const subscriber: EventSubscriber = { buffer: [], resolvers: new Set(), ...options };
+    state.eventSubscribers.add(subscriber);
+    return subscriber;
+  };
+
   it('should call all registered event callbacks', () => {
     const callback1 = vi.fn();
     const callback2 = vi.fn();
@@ -63,24 +71,73 @@ describe('EventHandler', () => {
   });
 
   it('should queue events when active iterators exist', () => {
-    state.activeEventIterators = 1;
+    const subscriber = addSubscriber();
     const resolver = vi.fn();
-    state.eventResolvers.add(resolver);
+    subscriber.resolvers.add(resolver);
 
     const event: SocketEvent = { type: 'open', ts: Date.now() };
     handler.emit(event);
 
-    expect(state.eventQueue).toContain(event);
+    expect(subscriber.buffer).toContain(event);
+    expect(state.eventQueue).toEqual([]);
     expect(resolver).toHaveBeenCalled();
-    expect(state.eventResolvers.size).toBe(0); // Should clear resolvers
+    expect(subscriber.resolvers.size).toBe(0); // Should clear resolvers
+  });
+
+  it('should fan out events to every active iterator', () => {
+    const subscriber1 = addSubscriber();
+    const subscriber2 = addSubscriber();
+
+    const event: SocketEvent = { type: 'open', ts: Date.now() };
+    handler.emit(event);
+
+    expect(subscriber1.buffer).toEqual([event]);
+    expect(subscriber2.buffer).toEqual([event]);
+  });
+
+  it('should only buffer events accepted by types and filter', () => {
+    const byType = addSubscriber({ types: new Set(['open', 'close']) });
+    const byFilter = addSubscriber({ filter: event => event.meta?.code === 1000 });
+    const resolver = vi.fn();
+    byType.resolvers.add(resolver);
+
+    const open: SocketEvent = { type: 'open', ts: 1 };
+    const received: SocketEvent = { type: 'received', ts: 2, meta: { message: 'x' } };
+    const close: SocketEvent = { type: 'close', ts: 3, meta: { code: 1000 } };
+    handler.emit(received);
+    expect(resolver).not.toHaveBeenCalled();
+    handler.emit(open);
+    handler.emit(close);
+
+    expect(byType.buffer).toEqual([open, close]);
+    expect(byFilter.buffer).toEqual([close]);
+    expect(state.eventQueue).toEqual([]);
+  });
+
+  it('should log and skip events when a filter throws', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = addSubscriber({
+      filter: () => {
+        throw new Error('Filter error');
+      },
+    });
+    const other = addSubscriber();
+
+    const event: SocketEvent = { type: 'open', ts: Date.now() };
+    handler.emit(event);
+
+    expect(failing.buffer).toEqual([]);
+    expect(other.buffer).toEqual([event]);
+    expect(consoleSpy).toHaveBeenCalledWith('Error in events() filter:', expect.any(Error));
+    consoleSpy.mockRestore();
   });
 
   it('should notify all waiting resolvers', () => {
-    state.activeEventIterators = 1;
+    const subscriber = addSubscriber();
     const resolver1 = vi.fn();
     const resolver2 = vi.fn();
-    state.eventResolvers.add(resolver1);
-    state.eventResolvers.add(resolver2);
+    subscriber.resolvers.add(resolver1);
+    subscriber.resolvers.add(resolver2);
 
     const event: SocketEvent = { type: 'open', ts: Date.now() };
     handler.emit(event);
@@ -90,8 +147,6 @@ describe('EventHandler', () => {
   });
 
   it('should limit event queue size when no active iterators', () => {
-    state.activeEventIterators = 0;
-
     // Emit more events than MAX_RECENT_EVENTS
     for (let i = 0; i < MAX_RECENT_EVENTS + 5; i++) {
       handler.emit({ type: 'open', ts: Date.now() });
@@ -102,7 +157,7 @@ describe('EventHandler', () => {
   });
 
   it('should keep all events when active iterators exist', () => {
-    state.activeEventIterators = 1;
+    const subscriber = addSubscriber();
 
     // Emit more events than MAX_RECENT_EVENTS
     for (let i = 0; i < MAX_RECENT_EVENTS + 5; i++) {
@@ -110,12 +165,10 @@ describe('EventHandler', () => {
     }
 
     // Should keep all events
-    expect(state.eventQueue.length).toBe(MAX_RECENT_EVENTS + 5);
+    expect(subscriber.buffer.length).toBe(MAX_RECENT_EVENTS + 5);
   });
 
   it('should remove oldest events when queue exceeds limit', () => {
-    state.activeEventIterators = 0;
-
     // Emit events
     handler.emit({ type: 'open', ts: Date.now() });
     handler.emit({ type: 'close', ts: Date.now(), meta: { code: 1000 } });
@@ -129,4 +182,106 @@ describe('EventHandler', () => {
     expect(state.eventQueue[0].type).not.toBe('open');
     expect(state.eventQueue.length).toBe(MAX_RECENT_EVENTS);
   });
+
+  describe('waitFor', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should resolve with the next matching event and remove its listener', async () => {
+      const promise = handler.waitFor('open');
+      const event: SocketEvent = { type: 'open', ts: Date.now() };
+      handler.emit({ type: 'sent', ts: Date.now() });
+      handler.emit(event);
+
+      await expect(promise).resolves.toBe(event);
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+
+    it('should only resolve when predicate matches', async () => {
+      const promise = handler.waitFor('close', event => event.meta?.code === 4000);
+      handler.emit({ type: 'close', ts: Date.now(), meta: { code: 1000 } });
+      handler.emit({ type: 'close', ts: Date.now(), meta: { code: 4000 } });
+
+      await expect(promise).resolves.toMatchObject({ meta: { code: 4000 } });
+    });
+
+    it('should reject when predicate throws', async () => {
+      const promise = handler.waitFor('open', () => {
+        throw new Error('predicate failed');
+      });
+      handler.emit({ type: 'open', ts: Date.now() });
+
+      await expect(promise).rejects.toThrow('predicate failed');
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+
+    it('should reject on timeout', async () => {
+      const promise = handler.waitFor('open', undefined, { timeout: 100 });
+      const assertion = expect(promise).rejects.toThrow('Timed out waiting for open after 100ms');
+      vi.advanceTimersByTime(100);
+
+      await assertion;
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+
+    it('should reject on abort', async () => {
+      const controller = new AbortController();
+      const promise = handler.waitFor('open', undefined, { signal: controller.signal });
+      controller.abort(new Error('stop'));
+
+      await expect(promise).rejects.toThrow('stop');
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+
+    it('should reject immediately when signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        handler.waitFor('open', undefined, { signal: controller.signal })
+      ).rejects.toBeDefined();
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+
+    it('should reject when connection state moves to failed', async () => {
+      const promise = handler.waitFor('open');
+      handler.emit({
+        type: 'stateChange',
+        ts: Date.now(),
+        meta: { from: 'open', to: 'failed', reason: 'reconnect_exhausted' },
+      });
+
+      await expect(promise).rejects.toThrow('Reconnect attempts exhausted');
+    });
+
+    it('should reject when connection state moves to closed', async () => {
+      const promise = handler.waitFor('open');
+      handler.emit({
+        type: 'stateChange',
+        ts: Date.now(),
+        meta: { from: 'reconnecting', to: 'closed', reason: 'manual' },
+      });
+
+      await expect(promise).rejects.toThrow('Socket closed');
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+
+    it('should resolve waitFor(failed) with the failed event that follows the transition', async () => {
+      const promise = handler.waitFor('failed');
+      handler.emit({
+        type: 'stateChange',
+        ts: Date.now(),
+        meta: { from: 'reconnecting', to: 'failed', reason: 'reconnect_exhausted' },
+      });
+      handler.emit({ type: 'failed', ts: Date.now(), meta: { reason: 'reconnect_exhausted' } });
+
+      await expect(promise).resolves.toMatchObject({ type: 'failed' });
+      expect(state.eventCallbacks.size).toBe(0);
+    });
+  });
 });
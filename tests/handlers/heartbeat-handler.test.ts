@@ -0,0 +1,266 @@
+/**
+ * heartbeat-handler.test.ts
+ *
+ * Purpose: Unit tests for HeartbeatHandler class
+ *
+ * Test Coverage:
+ * - Ping scheduling after start
+ * - Pong detection and heartbeat event emission
+ * - Timeout detection and timeout event emission
+ * - Custom ping payload and pong matcher
+ * - Timer cleanup on stop
+ * - Latency statistics and latency event emission
+ * - Explicit ping() with and without the heartbeat
+ *
+ * Boundaries:
+ * - Integration tests for dead-connection reconnection are in integration/heartbeat.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HeartbeatHandler } from '../../src/handlers/heartbeat-handler.js';
+import { EventHandler } from '../../src/handlers/event-handler.js';
+import { createState, normalizeOptions } from '../../src/utils.js';
+import type { NormalizedSocketOptions } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, MockWebSocket } from '../helpers.js';
+
+describe('HeartbeatHandler', () => {
+  let handler: HeartbeatHandler<string>;
+  let eventHandler: EventHandler<string>;
+  let state: ReturnType<typeof createState<string>>;
+  let opts: NormalizedSocketOptions;
+  let ws: MockWebSocket;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+    state = createState<string>();
+    eventHandler = new EventHandler<string>(state);
+    opts = normalizeOptions({
+      url: 'ws://test.com',
+      heartbeat: { interval: 1000, timeout: 500 },
+    });
+    handler = new HeartbeatHandler<string>(state, opts, eventHandler);
+    ws = new MockWebSocket('ws://test.com');
+    // Let the mock finish its simulated handshake
+    vi.advanceTimersByTime(0);
+    state.ws = ws as unknown as WebSocket;
+  });
+
+  afterEach(() => {
+    handler.stop();
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should be disabled by default', () => {
+    opts = normalizeOptions({ url: 'ws://test.com' });
+    handler = new HeartbeatHandler<string>(state, opts, eventHandler);
+
+    handler.start(vi.fn());
+    vi.advanceTimersByTime(60000);
+
+    expect(ws.sentMessages).toEqual([]);
+    expect(handler.handleMessage('pong')).toBe(false);
+  });
+
+  it('should send ping after interval', () => {
+    handler.start(vi.fn());
+
+    vi.advanceTimersByTime(999);
+    expect(ws.sentMessages).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(ws.sentMessages).toEqual(['ping']);
+  });
+
+  it('should emit heartbeat event with rtt on pong and schedule next ping', () => {
+    const eventCallback = vi.fn();
+    state.eventCallbacks.add(eventCallback);
+    handler.start(vi.fn());
+
+    vi.advanceTimersByTime(1000);
+    vi.advanceTimersByTime(50);
+
+    expect(handler.handleMessage('pong')).toBe(true);
+    expect(eventCallback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'heartbeat',
+        meta: expect.objectContaining({ rtt: 50 }),
+      })
+    );
+
+    vi.advanceTimersByTime(1000);
+    expect(ws.sentMessages).toEqual(['ping', 'ping']);
+  });
+
+  it('should not treat regular messages as pong', () => {
+    handler.start(vi.fn());
+    expect(handler.handleMessage('hello')).toBe(false);
+  });
+
+  it('should call onTimeout and emit timeout event when pong is missed', () => {
+    const onTimeout = vi.fn();
+    const eventCallback = vi.fn();
+    state.eventCallbacks.add(eventCallback);
+    handler.start(onTimeout);
+
+    vi.advanceTimersByTime(1000);
+    vi.advanceTimersByTime(499);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(eventCallback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'timeout',
+        meta: expect.objectContaining({ reason: 'heartbeat', timeout: 500 }),
+      })
+    );
+    expect(state.heartbeatTimer).toBeNull();
+    expect(state.heartbeatTimeoutTimer).toBeNull();
+  });
+
+  it('should use custom message and isPong', () => {
+    opts = normalizeOptions({
+      url: 'ws://test.com',
+      heartbeat: {
+        interval: 100,
+        message: () => ({ type: 'ping' }),
+        isPong: data => typeof data === 'string' && data.includes('"pong"'),
+      },
+    });
+    handler = new HeartbeatHandler<string>(state, opts, eventHandler);
+    handler.start(vi.fn());
+
+    vi.advanceTimersByTime(100);
+
+    expect(ws.sentMessages).toEqual(['{"type":"ping"}']);
+    expect(handler.handleMessage('pong')).toBe(false);
+    expect(handler.handleMessage('{"type":"pong"}')).toBe(true);
+  });
+
+  it('should clear timers on stop', () => {
+    const onTimeout = vi.fn();
+    handler.start(onTimeout);
+    vi.advanceTimersByTime(1000);
+
+    handler.stop();
+    vi.advanceTimersByTime(10000);
+
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(state.heartbeatTimer).toBeNull();
+    expect(state.heartbeatTimeoutTimer).toBeNull();
+  });
+
+  it('should skip ping when connection is not open', () => {
+    const onTimeout = vi.fn();
+    ws.readyState = MockWebSocket.CLOSED;
+    handler.start(onTimeout);
+
+    vi.advanceTimersByTime(5000);
+
+    expect(ws.sentMessages).toEqual([]);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  describe('latency', () => {
+    const pongAfter = (rtt: number) => {
+      vi.advanceTimersByTime(1000);
+      vi.advanceTimersByTime(rtt);
+      handler.handleMessage('pong');
+    };
+
+    it('should compute statistics from pongs', () => {
+      handler.start(vi.fn());
+      expect(handler.latency).toBeNull();
+
+      [40, 60, 50, 100].forEach(pongAfter);
+
+      expect(handler.latency).toEqual({
+        current: 100,
+        min: 40,
+        avg: 62.5,
+        p95: 100,
+        jitter: (20 + 10 + 50) / 3,
+        samples: 4,
+      });
+      const latencyEvents = state.eventQueue.filter(event => event.type === 'latency');
+      expect(latencyEvents).toHaveLength(4);
+      expect(latencyEvents[0].meta).toEqual({
+        current: 40,
+        min: 40,
+        avg: 40,
+        p95: 40,
+        jitter: 0,
+        samples: 1,
+      });
+    });
+
+    it('should keep the most recent samples only', () => {
+      handler.start(vi.fn());
+
+      for (let i = 1; i <= 25; i++) {
+        pongAfter(i);
+      }
+
+      expect(handler.latency?.samples).toBe(20);
+      expect(handler.latency?.min).toBe(6);
+    });
+
+    it('should clear samples on stop', () => {
+      handler.start(vi.fn());
+      pongAfter(40);
+
+      handler.stop();
+
+      expect(handler.latency).toBeNull();
+    });
+  });
+
+  describe('ping', () => {
+    it('should resolve with the round-trip time while the heartbeat is disabled', async () => {
+      opts = normalizeOptions({ url: 'ws://test.com' });
+      handler = new HeartbeatHandler<string>(state, opts, eventHandler);
+
+      const promise = handler.ping();
+      expect(ws.sentMessages).toEqual(['ping']);
+      vi.advanceTimersByTime(30);
+      expect(handler.handleMessage('pong')).toBe(true);
+
+      await expect(promise).resolves.toBe(30);
+      expect(handler.latency?.current).toBe(30);
+      expect(handler.handleMessage('pong')).toBe(false);
+    });
+
+    it('should share a ping already in flight', async () => {
+      handler.start(vi.fn());
+      vi.advanceTimersByTime(1000);
+
+      const promise = handler.ping();
+      vi.advanceTimersByTime(20);
+      handler.handleMessage('pong');
+
+      await expect(promise).resolves.toBe(20);
+      expect(ws.sentMessages).toEqual(['ping']);
+    });
+
+    it('should reject on timeout and send again on the next call', async () => {
+      opts = normalizeOptions({ url: 'ws://test.com' });
+      handler = new HeartbeatHandler<string>(state, opts, eventHandler);
+
+      const promise = handler.ping({ timeout: 100 });
+      const assertion = expect(promise).rejects.toThrow();
+      vi.advanceTimersByTime(100);
+      await assertion;
+
+      void handler.ping().catch(() => {});
+      expect(ws.sentMessages).toEqual(['ping', 'ping']);
+    });
+
+    it('should reject when the connection is not open', async () => {
+      ws.readyState = MockWebSocket.CLOSED;
+
+      await expect(handler.ping()).rejects.toThrow('Socket is not open');
+    });
+  });
+});
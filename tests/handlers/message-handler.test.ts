@@ -6,9 +6,11 @@
  * Test Coverage:
  * - Message receiving and parsing
  * - Message sending (immediate and queued)
- * - Message buffering
+ * - Message buffering (per-iterator filter)
  * - Buffer overflow handling
  * - Queue flushing
+ * - sendAhead ordering ahead of queued frames with sync and async codecs
+ * - sendTracked delivery Promises (written, dropped, expired, aborted, discarded)
  * - receiveMessages and sendMessages async iterables
  *
  * Boundaries:
@@ -20,7 +22,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MessageHandler } from '../../src/handlers/message-handler.js';
 import { EventHandler } from '../../src/handlers/event-handler.js';
 import { createState, normalizeOptions } from '../../src/utils.js';
-import type { NormalizedSocketOptions } from '../../src/types.js';
+import type { BufferConfig, MessageSubscriber, NormalizedSocketOptions } from '../../src/types.js';
 import { setupWebSocketMock, cleanupWebSocketMock, MockWebSocket } from '../helpers.js';
 
 describe('MessageHandler', () => {
@@ -38,6 +40,12 @@ describe('MessageHandler', () => {
     handler = new MessageHandler<string, string>(state, opts, eventHandler);
   });
 
+  const addSubscriber = (config: Required<BufferConfig> = opts.buffer.receive) => {
+    const subscriber: MessageSubscriber<string> = { buffer: [], resolvers: new Set(), config };
+    state.messageSubscribers.add(subscriber);
+    return subscriber;
+  };
+
   afterEach(() => {
     vi.useRealTimers();
     cleanupWebSocketMock();
@@ -79,22 +87,80 @@ describe('MessageHandler', () => {
     });
 
     it('should buffer messages when active iterators exist', () => {
-      state.activeMessageIterators = 1;
+      const subscriber = addSubscriber();
 
       handler.receive('msg1');
       handler.receive('msg2');
 
-      expect(state.messageBuffer.length).toBe(2);
-      expect(state.messageBuffer).toContain('msg1');
-      expect(state.messageBuffer).toContain('msg2');
+      expect(subscriber.buffer).toEqual(['msg1', 'msg2']);
     });
 
-    it('should not buffer messages when no active iterators', () => {
-      state.activeMessageIterators = 0;
+    it('should buffer every message for every active iterator', () => {
+      const subscriber1 = addSubscriber();
+      const subscriber2 = addSubscriber();
+
+      handler.receive('msg1');
+
+      expect(subscriber1.buffer).toEqual(['msg1']);
+      expect(subscriber2.buffer).toEqual(['msg1']);
+    });
+
+    it('should apply overflow policy per iterator', () => {
+      const oldest = addSubscriber({ size: 1, overflow: 'oldest' });
+      const newest = addSubscriber({ size: 1, overflow: 'newest' });
+      const roomy = addSubscriber({ size: 10, overflow: 'error' });
+
+      handler.receive('msg1');
+      handler.receive('msg2');
+
+      expect(oldest.buffer).toEqual(['msg2']);
+      expect(newest.buffer).toEqual(['msg1']);
+      expect(roomy.buffer).toEqual(['msg1', 'msg2']);
+    });
+
+    it('should deliver to other iterators before throwing on error overflow', () => {
+      addSubscriber({ size: 1, overflow: 'error' });
+      const other = addSubscriber();
+
+      handler.receive('msg1');
+
+      expect(() => handler.receive('msg2')).toThrow('Message buffer overflow');
+      expect(other.buffer).toEqual(['msg1', 'msg2']);
+    });
+
+    it('should only buffer messages accepted by the iterator filter', () => {
+      const filtered = addSubscriber();
+      filtered.filter = message => message.startsWith('keep');
+      const all = addSubscriber();
+
+      handler.receive('keep1');
+      handler.receive('drop');
+      handler.receive('keep2');
+
+      expect(filtered.buffer).toEqual(['keep1', 'keep2']);
+      expect(all.buffer).toEqual(['keep1', 'drop', 'keep2']);
+    });
+
+    it('should log and skip messages when an iterator filter throws', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failing = addSubscriber();
+      failing.filter = () => {
+        throw new Error('Filter error');
+      };
+      const other = addSubscriber();
 
       handler.receive('msg1');
 
-      expect(state.messageBuffer.length).toBe(0);
+      expect(failing.buffer).toEqual([]);
+      expect(other.buffer).toEqual(['msg1']);
+      expect(consoleSpy).toHaveBeenCalledWith('Error in messages() filter:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    it('should not buffer messages when no active iterators', () => {
+      expect(state.messageSubscribers.size).toBe(0);
+
+      expect(() => handler.receive('msg1')).not.toThrow();
     });
   });
 
@@ -185,6 +251,173 @@ describe('MessageHandler', () => {
     });
   });
 
+  describe('sendAhead', () => {
+    const open = async () => {
+      await vi.runAllTimersAsync();
+      const ws = new MockWebSocket('ws://test.com');
+      ws.readyState = MockWebSocket.OPEN;
+      state.ws = ws as unknown as WebSocket;
+      return ws;
+    };
+
+    const useAsyncCodec = () => {
+      opts = normalizeOptions({
+        url: 'ws://test.com',
+        codec: {
+          encode: data =>
+            new Promise<string>(resolve => setTimeout(() => resolve(String(data)), 10)),
+          decode: data => String(data),
+        },
+      });
+      handler = new MessageHandler<string, string>(state, opts, eventHandler);
+    };
+
+    it('should write the messages before queued frames', async () => {
+      handler.send('queued');
+      const ws = await open();
+
+      handler.sendAhead(['sub1', 'sub2']);
+
+      expect(ws.sentMessages).toEqual(['sub1', 'sub2', 'queued']);
+    });
+
+    it('should hold the queue and new sends until async encodes finish', async () => {
+      useAsyncCodec();
+      handler.send('queued');
+      await vi.advanceTimersByTimeAsync(10);
+      const ws = await open();
+
+      handler.sendAhead(['sub']);
+      handler.flushQueue();
+      handler.send('live');
+      expect(ws.sentMessages).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(20);
+
+      expect(ws.sentMessages).toEqual(['sub', 'queued', 'live']);
+    });
+
+    it('should drop pending messages discarded by discardQueue', async () => {
+      useAsyncCodec();
+      const ws = await open();
+
+      handler.sendAhead(['sub']);
+      handler.discardQueue(new Error('Connection closed'));
+      await vi.advanceTimersByTimeAsync(20);
+
+      expect(ws.sentMessages).toEqual([]);
+      expect(state.messageQueue).toEqual([]);
+    });
+  });
+
+  describe('sendTracked', () => {
+    const open = async () => {
+      await vi.runAllTimersAsync();
+      const ws = new MockWebSocket('ws://test.com');
+      ws.readyState = MockWebSocket.OPEN;
+      return ws;
+    };
+
+    const useSendBuffer = (overflow: 'oldest' | 'newest' | 'error') => {
+      opts = normalizeOptions({ url: 'ws://test.com', buffer: { send: { size: 1, overflow } } });
+      handler = new MessageHandler<string, string>(state, opts, eventHandler);
+    };
+
+    it('should resolve once the message is written while open', async () => {
+      const ws = await open();
+      state.ws = ws as unknown as WebSocket;
+
+      await expect(handler.sendTracked('msg1')).resolves.toBeUndefined();
+      expect(ws.sentMessages).toEqual(['msg1']);
+    });
+
+    it('should resolve queued messages when the queue is flushed', async () => {
+      const resolved = vi.fn();
+      handler.sendTracked('msg1').then(resolved);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(resolved).not.toHaveBeenCalled();
+      expect(state.sendReceipts).toHaveLength(1);
+
+      const ws = await open();
+      state.ws = ws as unknown as WebSocket;
+      handler.flushQueue();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(resolved).toHaveBeenCalledTimes(1);
+      expect(ws.sentMessages).toEqual(['msg1']);
+      expect(state.sendReceipts).toHaveLength(0);
+    });
+
+    it('should reject the new message when dropped by the newest policy', async () => {
+      useSendBuffer('newest');
+
+      handler.sendTracked('msg1');
+
+      await expect(handler.sendTracked('msg2')).rejects.toThrow('Message dropped: send queue full');
+      expect(state.messageQueue).toEqual(['msg1']);
+    });
+
+    it('should reject the evicted message when dropped by the oldest policy', async () => {
+      useSendBuffer('oldest');
+
+      const first = handler.sendTracked('msg1');
+      handler.sendTracked('msg2');
+
+      await expect(first).rejects.toThrow('Message dropped: send queue full');
+      expect(state.messageQueue).toEqual(['msg2']);
+      expect(state.sendReceipts).toHaveLength(1);
+    });
+
+    it('should reject instead of throwing on overflow with the error policy', async () => {
+      useSendBuffer('error');
+
+      handler.sendTracked('msg1');
+
+      await expect(handler.sendTracked('msg2')).rejects.toThrow('Send queue overflow');
+    });
+
+    it('should remove and reject a message not written before timeout', async () => {
+      const sent = handler.sendTracked('msg1', { timeout: 100 });
+      handler.send('msg2');
+      const rejection = expect(sent).rejects.toThrow('Send timed out after 100ms');
+
+      await vi.advanceTimersByTimeAsync(100);
+      await rejection;
+
+      expect(state.messageQueue).toEqual(['msg2']);
+      expect(state.sendReceipts).toEqual([undefined]);
+    });
+
+    it('should remove and reject a queued message when aborted', async () => {
+      const controller = new AbortController();
+      const sent = handler.sendTracked('msg1', { signal: controller.signal });
+
+      controller.abort(new Error('cancelled'));
+
+      await expect(sent).rejects.toThrow('cancelled');
+      expect(state.messageQueue).toEqual([]);
+    });
+
+    it('should reject immediately with an aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(handler.sendTracked('msg1', { signal: controller.signal })).rejects.toThrow();
+      expect(state.messageQueue).toEqual([]);
+    });
+
+    it('should reject queued messages discarded by discardQueue', async () => {
+      const sent = handler.sendTracked('msg1');
+      handler.send('msg2');
+
+      handler.discardQueue(new Error('Connection closed'));
+
+      await expect(sent).rejects.toThrow('Connection closed');
+      expect(state.messageQueue).toEqual([]);
+      expect(state.sendReceipts).toEqual([]);
+    });
+  });
+
   describe('receiveMessages', () => {
     it('should process async iterable of messages', async () => {
       const callback = vi.fn();
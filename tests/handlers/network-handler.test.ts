@@ -0,0 +1,133 @@
+/**
+ * network-handler.test.ts
+ *
+ * Purpose: Unit tests for NetworkHandler class
+ *
+ * Test Coverage:
+ * - canReconnect() while disabled, offline, and suspended after a hidden timeout
+ * - Subscribing to the environment and unsubscribing on stop()
+ * - network event emission and resume/hidden callbacks
+ *
+ * Boundaries:
+ * - Pausing and resuming reconnects through the socket is tested in integration/network.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NetworkHandler } from '../../src/handlers/network-handler.js';
+import { EventHandler } from '../../src/handlers/event-handler.js';
+import { createState, normalizeOptions } from '../../src/utils.js';
+import type { NetworkConfig } from '../../src/types.js';
+import { createFakeNetworkEnvironment } from '../helpers.js';
+
+describe('NetworkHandler', () => {
+  let state: ReturnType<typeof createState<string>>;
+  let eventHandler: EventHandler<string>;
+  let environment: ReturnType<typeof createFakeNetworkEnvironment>;
+  let onResume: ReturnType<typeof vi.fn<() => void>>;
+  let onHidden: ReturnType<typeof vi.fn<() => void>>;
+
+  const createHandler = (network: boolean | NetworkConfig = { environment }) =>
+    new NetworkHandler<string>(
+      state,
+      normalizeOptions({ url: 'ws://test.com', network }),
+      eventHandler
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    state = createState<string>();
+    eventHandler = new EventHandler<string>(state);
+    environment = createFakeNetworkEnvironment();
+    onResume = vi.fn<() => void>();
+    onHidden = vi.fn<() => void>();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should always allow reconnecting when disabled', () => {
+    const handler = createHandler({ enabled: false, environment });
+    handler.start(onResume, onHidden);
+    environment.change('offline');
+
+    expect(handler.canReconnect()).toBe(true);
+    expect(environment.listenerCount()).toBe(0);
+  });
+
+  it('should hold reconnects back while offline', () => {
+    const handler = createHandler();
+    handler.start(onResume, onHidden);
+
+    environment.change('offline');
+    expect(handler.canReconnect()).toBe(false);
+    expect(onResume).not.toHaveBeenCalled();
+
+    environment.change('online');
+    expect(handler.canReconnect()).toBe(true);
+    expect(onResume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit network events', () => {
+    const handler = createHandler();
+    handler.start(onResume, onHidden);
+
+    environment.change('offline');
+    environment.change('hidden');
+
+    expect(state.eventQueue.map(event => event.meta)).toEqual([
+      { online: false, visible: true },
+      { online: false, visible: false },
+    ]);
+  });
+
+  it('should suspend after hiddenTimeout and resume when visible', () => {
+    const handler = createHandler({ environment, hiddenTimeout: 1000 });
+    handler.start(onResume, onHidden);
+
+    environment.change('hidden');
+    vi.advanceTimersByTime(999);
+    expect(onHidden).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onHidden).toHaveBeenCalledTimes(1);
+    expect(handler.canReconnect()).toBe(false);
+
+    environment.change('visible');
+    expect(handler.canReconnect()).toBe(true);
+    expect(onResume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not suspend when the page is visible again in time', () => {
+    const handler = createHandler({ environment, hiddenTimeout: 1000 });
+    handler.start(onResume, onHidden);
+
+    environment.change('hidden');
+    vi.advanceTimersByTime(500);
+    environment.change('visible');
+    vi.advanceTimersByTime(1000);
+
+    expect(onHidden).not.toHaveBeenCalled();
+    expect(onResume).not.toHaveBeenCalled();
+  });
+
+  it('should start the hidden timer when created hidden', () => {
+    environment.visible = false;
+    const handler = createHandler({ environment, hiddenTimeout: 1000 });
+    handler.start(onResume, onHidden);
+
+    vi.advanceTimersByTime(1000);
+    expect(onHidden).toHaveBeenCalledTimes(1);
+  });
+
+  it('should unsubscribe and clear the hidden timer on stop', () => {
+    const handler = createHandler({ environment, hiddenTimeout: 1000 });
+    handler.start(onResume, onHidden);
+    environment.change('hidden');
+
+    handler.stop();
+    vi.advanceTimersByTime(1000);
+
+    expect(environment.listenerCount()).toBe(0);
+    expect(onHidden).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * request-handler.test.ts
+ *
+ * Purpose: Unit tests for RequestHandler class
+ *
+ * Test Coverage:
+ * - Correlation id stamping (default counter, custom idKey and generateId)
+ * - Reply matching via MessageHandler.receive
+ * - Rejection on timeout, abort, invalid payload and rejectAll
+ * - Pending request cleanup
+ *
+ * Boundaries:
+ * - Integration tests for request() through createSocket are in integration/request.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RequestHandler } from '../../src/handlers/request-handler.js';
+import { MessageHandler } from '../../src/handlers/message-handler.js';
+import { EventHandler } from '../../src/handlers/event-handler.js';
+import { createState, normalizeOptions } from '../../src/utils.js';
+import type { NormalizedSocketOptions } from '../../src/types.js';
+
+type Message = { id?: number | string; reqId?: string; type: string };
+
+describe('RequestHandler', () => {
+  let handler: RequestHandler<Message, Message | string>;
+  let messageHandler: MessageHandler<Message, Message | string>;
+  let state: ReturnType<typeof createState<Message>>;
+  let opts: NormalizedSocketOptions;
+
+  const createHandlers = () => {
+    const eventHandler = new EventHandler<Message>(state);
+    messageHandler = new MessageHandler<Message, Message | string>(state, opts, eventHandler);
+    handler = new RequestHandler<Message, Message | string>(state, opts, messageHandler);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    state = createState<Message>();
+    opts = normalizeOptions({ url: 'ws://test.com' });
+    createHandlers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stamp incrementing ids on outgoing messages', () => {
+    void handler.request({ type: 'a' });
+    void handler.request({ type: 'b' });
+
+    expect(state.messageQueue).toEqual(['{"type":"a","id":1}', '{"type":"b","id":2}']);
+    expect(state.pendingRequests.size).toBe(2);
+  });
+
+  it('should use custom idKey and generateId', () => {
+    opts = normalizeOptions({
+      url: 'ws://test.com',
+      request: { idKey: 'reqId', generateId: () => 'abc' },
+    });
+    createHandlers();
+
+    void handler.request({ type: 'a' });
+
+    expect(state.messageQueue).toEqual(['{"type":"a","reqId":"abc"}']);
+    expect(state.pendingRequests.has('abc')).toBe(true);
+  });
+
+  it('should resolve with matching reply and not deliver it to callbacks', async () => {
+    const callback = vi.fn();
+    state.messageCallbacks.add(callback);
+
+    const promise = handler.request({ type: 'get' });
+    messageHandler.receive('{"id":2,"type":"other"}');
+    messageHandler.receive('{"id":1,"type":"reply"}');
+
+    await expect(promise).resolves.toEqual({ id: 1, type: 'reply' });
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({ id: 2, type: 'other' });
+    expect(state.pendingRequests.size).toBe(0);
+  });
+
+  it('should deliver replies to callbacks when deliverReplies is enabled', async () => {
+    opts = normalizeOptions({ url: 'ws://test.com', request: { deliverReplies: true } });
+    createHandlers();
+    const callback = vi.fn();
+    state.messageCallbacks.add(callback);
+
+    const promise = handler.request({ type: 'get' });
+    messageHandler.receive('{"id":1,"type":"reply"}');
+
+    await expect(promise).resolves.toEqual({ id: 1, type: 'reply' });
+    expect(callback).toHaveBeenCalledWith({ id: 1, type: 'reply' });
+  });
+
+  it('should reject on timeout', async () => {
+    const promise = handler.request({ type: 'get' }, { timeout: 100 });
+    const assertion = expect(promise).rejects.toThrow('Request timed out after 100ms');
+
+    vi.advanceTimersByTime(100);
+
+    await assertion;
+    expect(state.pendingRequests.size).toBe(0);
+  });
+
+  it('should reject on abort', async () => {
+    const controller = new AbortController();
+    const promise = handler.request({ type: 'get' }, { signal: controller.signal });
+
+    controller.abort(new Error('cancelled'));
+
+    await expect(promise).rejects.toThrow('cancelled');
+    expect(state.pendingRequests.size).toBe(0);
+  });
+
+  it('should reject immediately when signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+
+    await expect(handler.request({ type: 'get' }, { signal: controller.signal })).rejects.toThrow(
+      'cancelled'
+    );
+    expect(state.messageQueue).toEqual([]);
+  });
+
+  it('should reject non-object payloads', async () => {
+    await expect(handler.request('plain')).rejects.toThrow(TypeError);
+  });
+
+  it('should reject binary payloads, including typed arrays and DataViews', async () => {
+    const payloads = [new ArrayBuffer(2), new Uint8Array(2), new DataView(new ArrayBuffer(2))];
+    for (const payload of payloads) {
+      await expect(handler.request(payload as unknown as Message)).rejects.toThrow(
+        'Request payload must be an object'
+      );
+    }
+    expect(state.messageQueue).toEqual([]);
+  });
+
+  it('should check payloads where Blob is not defined', async () => {
+    vi.stubGlobal('Blob', undefined);
+    try {
+      await expect(handler.request(new ArrayBuffer(2) as unknown as Message)).rejects.toThrow(
+        TypeError
+      );
+      void handler.request({ type: 'a' });
+      expect(state.messageQueue).toEqual(['{"type":"a","id":1}']);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should remove the queued frame of a request that timed out', async () => {
+    const promise = handler.request({ type: 'get' }, { timeout: 100 });
+    void handler.request({ type: 'other' });
+    const rejection = expect(promise).rejects.toThrow('Request timed out after 100ms');
+
+    await vi.advanceTimersByTimeAsync(100);
+    await rejection;
+
+    expect(state.messageQueue).toEqual(['{"type":"other","id":2}']);
+  });
+
+  it('should reject a request whose frame is dropped from the send queue', async () => {
+    opts = normalizeOptions({
+      url: 'ws://test.com',
+      buffer: { send: { size: 1, overflow: 'oldest' } },
+    });
+    createHandlers();
+
+    const first = handler.request({ type: 'a' });
+    void handler.request({ type: 'b' });
+
+    await expect(first).rejects.toThrow('Message dropped: send queue full');
+    expect(state.pendingRequests.size).toBe(1);
+  });
+
+  it('should reject when send queue overflows with error policy', async () => {
+    opts = normalizeOptions({
+      url: 'ws://test.com',
+      buffer: { send: { size: 0, overflow: 'error' } },
+    });
+    createHandlers();
+
+    await expect(handler.request({ type: 'get' })).rejects.toThrow('Send queue overflow');
+    expect(state.pendingRequests.size).toBe(0);
+  });
+
+  it('should reject all pending requests', async () => {
+    const first = handler.request({ type: 'a' });
+    const second = handler.request({ type: 'b' });
+
+    handler.rejectAll(new Error('Connection closed'));
+
+    await expect(first).rejects.toThrow('Connection closed');
+    await expect(second).rejects.toThrow('Connection closed');
+    expect(state.pendingRequests.size).toBe(0);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * subscription-handler.test.ts
+ *
+ * Purpose: Unit tests for SubscriptionHandler class
+ *
+ * Test Coverage:
+ * - Subscribe/unsubscribe messages (defaults, SubscriptionConfig, per-call options)
+ * - Reference counting of subscriptions sharing a topic
+ * - Deferring subscribe messages until open and resubscribe()
+ * - Routing by topic to handlers and Subscription iterators
+ *
+ * Boundaries:
+ * - Integration tests for resubscribe after reconnect are in integration/subscriptions.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SubscriptionHandler } from '../../src/handlers/subscription-handler.js';
+import { MessageHandler } from '../../src/handlers/message-handler.js';
+import { EventHandler } from '../../src/handlers/event-handler.js';
+import { createState, normalizeOptions } from '../../src/utils.js';
+import type { NormalizedSocketOptions } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, MockWebSocket } from '../helpers.js';
+
+type Message = { topic?: string; channel?: string; value?: number; type?: string };
+
+describe('SubscriptionHandler', () => {
+  let handler: SubscriptionHandler<Message, unknown>;
+  let messageHandler: MessageHandler<Message, unknown>;
+  let state: ReturnType<typeof createState<Message>>;
+  let opts: NormalizedSocketOptions;
+  let ws: MockWebSocket;
+
+  const createHandlers = () => {
+    const eventHandler = new EventHandler<Message>(state);
+    messageHandler = new MessageHandler<Message, unknown>(state, opts, eventHandler);
+    handler = new SubscriptionHandler<Message, unknown>(state, opts, messageHandler);
+  };
+
+  const open = () => {
+    state.ws = ws as unknown as WebSocket;
+    state.connectionState = 'open';
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+    state = createState<Message>();
+    opts = normalizeOptions({ url: 'ws://test.com' });
+    createHandlers();
+    ws = new MockWebSocket('ws://test.com');
+    // Let the mock finish its simulated handshake
+    vi.advanceTimersByTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should send the default subscribe and unsubscribe messages while open', () => {
+    open();
+
+    const subscription = handler.subscribe('prices');
+    subscription.unsubscribe();
+
+    expect(ws.sentMessages).toEqual([
+      '{"type":"subscribe","topic":"prices"}',
+      '{"type":"unsubscribe","topic":"prices"}',
+    ]);
+    expect(state.subscriptions.size).toBe(0);
+  });
+
+  it('should build messages from SubscriptionConfig and per-call options', () => {
+    opts = normalizeOptions({
+      url: 'ws://test.com',
+      subscriptions: {
+        subscribeMessage: topic => ({ op: 'sub', channel: topic }),
+        unsubscribeMessage: topic => ({ op: 'unsub', channel: topic }),
+      },
+    });
+    createHandlers();
+    open();
+
+    handler.subscribe('a').unsubscribe();
+    handler.subscribe('b', null, { subscribeMessage: 'join:b', unsubscribeMessage: 'leave:b' });
+
+    expect(ws.sentMessages).toEqual([
+      '{"op":"sub","channel":"a"}',
+      '{"op":"unsub","channel":"a"}',
+      'join:b',
+    ]);
+  });
+
+  it('should subscribe a topic once for all of its subscriptions', () => {
+    open();
+
+    const first = handler.subscribe('prices');
+    const second = handler.subscribe('prices');
+    expect(ws.sentMessages).toHaveLength(1);
+    expect(state.subscriptions.get('prices')?.count).toBe(2);
+
+    first.unsubscribe();
+    first.unsubscribe();
+    expect(ws.sentMessages).toHaveLength(1);
+
+    second.unsubscribe();
+    expect(ws.sentMessages).toEqual([
+      '{"type":"subscribe","topic":"prices"}',
+      '{"type":"unsubscribe","topic":"prices"}',
+    ]);
+  });
+
+  it('should defer subscribe messages until resubscribe()', () => {
+    handler.subscribe('a');
+    handler.subscribe('b');
+    expect(state.messageQueue).toHaveLength(0);
+
+    open();
+    handler.resubscribe();
+
+    expect(ws.sentMessages).toEqual([
+      '{"type":"subscribe","topic":"a"}',
+      '{"type":"subscribe","topic":"b"}',
+    ]);
+  });
+
+  it('should not send unsubscribe messages while disconnected', () => {
+    handler.subscribe('a').unsubscribe();
+
+    expect(state.messageQueue).toHaveLength(0);
+    expect(state.subscriptions.size).toBe(0);
+  });
+
+  it('should route messages to the handlers of their topic', () => {
+    const prices = vi.fn();
+    const news = vi.fn();
+    const callback = vi.fn();
+    state.messageCallbacks.add(callback);
+    handler.subscribe('prices', prices);
+    handler.subscribe('news', news);
+
+    messageHandler.receive('{"topic":"prices","value":1}');
+    messageHandler.receive('{"type":"other"}');
+
+    expect(prices).toHaveBeenCalledWith({ topic: 'prices', value: 1 });
+    expect(news).not.toHaveBeenCalled();
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use topicOf to find the topic of a message', () => {
+    opts = normalizeOptions({
+      url: 'ws://test.com',
+      subscriptions: { topicOf: message => (message as Message).channel },
+    });
+    createHandlers();
+    const prices = vi.fn();
+    handler.subscribe('prices', prices);
+
+    messageHandler.receive('{"topic":"prices","value":1}');
+    messageHandler.receive('{"channel":"prices","value":2}');
+
+    expect(prices).toHaveBeenCalledTimes(1);
+    expect(prices).toHaveBeenCalledWith({ channel: 'prices', value: 2 });
+  });
+
+  it('should stop calling the handler after unsubscribe()', () => {
+    const prices = vi.fn();
+    const subscription = handler.subscribe('prices', prices);
+    handler.subscribe('prices');
+
+    subscription.unsubscribe();
+    messageHandler.receive('{"topic":"prices","value":1}');
+
+    expect(prices).not.toHaveBeenCalled();
+  });
+
+  it('should isolate handler errors', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const next = vi.fn();
+    handler.subscribe('prices', () => {
+      throw new Error('boom');
+    });
+    handler.subscribe('prices', next);
+
+    messageHandler.receive('{"topic":"prices","value":1}');
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalledWith('Error in subscription handler:', expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it('should yield only messages of the topic and finish on unsubscribe()', async () => {
+    const subscription = handler.subscribe('prices');
+    const received: Message[] = [];
+    const consumer = (async () => {
+      for await (const message of subscription) {
+        received.push(message);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    messageHandler.receive('{"topic":"news","value":1}');
+    messageHandler.receive('{"topic":"prices","value":2}');
+    await vi.advanceTimersByTimeAsync(0);
+    subscription.unsubscribe();
+    await consumer;
+
+    expect(received).toEqual([{ topic: 'prices', value: 2 }]);
+    expect(state.messageSubscribers.size).toBe(0);
+  });
+
+  it('should throw after dispose', () => {
+    state.connectionState = 'disposed';
+
+    expect(() => handler.subscribe('prices')).toThrow('Cannot subscribe after dispose()');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * transport-handler.test.ts
+ *
+ * Purpose: Unit tests for TransportHandler class
+ *
+ * Test Coverage:
+ * - Creating connections with the active transport
+ * - Downgrading after FallbackConfig.after consecutive failures
+ * - Resetting the failure count on success and staying on the last transport
+ * - downgrade event emission with built-in and custom transport names
+ *
+ * Boundaries:
+ * - The SSE and long-polling transports themselves are tested in integration/transports.test.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TransportHandler } from '../../src/handlers/transport-handler.js';
+import { EventHandler } from '../../src/handlers/event-handler.js';
+import { createState, normalizeOptions } from '../../src/utils.js';
+import type { FallbackConfig, TransportFactory } from '../../src/types.js';
+import { MockWebSocket } from '../helpers.js';
+
+describe('TransportHandler', () => {
+  let state: ReturnType<typeof createState<string>>;
+  let eventHandler: EventHandler<string>;
+  let primary: ReturnType<typeof vi.fn<TransportFactory>>;
+  let secondary: ReturnType<typeof vi.fn<TransportFactory>>;
+
+  const createHandler = (fallback?: Partial<FallbackConfig>) =>
+    new TransportHandler<string>(
+      state,
+      normalizeOptions({
+        url: 'ws://test.com',
+        transport: primary,
+        fallback: { transports: [secondary], after: 2, ...fallback },
+      }),
+      eventHandler
+    );
+
+  const downgradeEvents = () =>
+    state.eventQueue.filter(event => event.type === 'downgrade').map(event => event.meta);
+
+  beforeEach(() => {
+    state = createState<string>();
+    eventHandler = new EventHandler<string>(state);
+    primary = vi.fn<TransportFactory>(url => new MockWebSocket(url));
+    secondary = vi.fn<TransportFactory>(url => new MockWebSocket(url));
+  });
+
+  it('should create connections with the configured transport', () => {
+    const handler = createHandler();
+
+    handler.create('ws://test.com', 'chat');
+
+    expect(primary).toHaveBeenCalledWith('ws://test.com', 'chat');
+    expect(secondary).not.toHaveBeenCalled();
+  });
+
+  it('should downgrade after consecutive failures', () => {
+    const handler = createHandler();
+
+    handler.reportFailure();
+    handler.create('ws://test.com');
+    expect(primary).toHaveBeenCalledTimes(1);
+
+    handler.reportFailure();
+    handler.create('ws://test.com');
+
+    expect(secondary).toHaveBeenCalledTimes(1);
+    expect(downgradeEvents()).toEqual([{ from: 'custom', to: 'custom' }]);
+  });
+
+  it('should reset the failure count on success', () => {
+    const handler = createHandler();
+
+    handler.reportFailure();
+    handler.reportSuccess();
+    handler.reportFailure();
+
+    expect(state.transportIndex).toBe(0);
+    expect(downgradeEvents()).toEqual([]);
+  });
+
+  it('should stay on the last transport', () => {
+    const handler = createHandler({ after: 1 });
+
+    for (let i = 0; i < 5; i++) {
+      handler.reportFailure();
+    }
+
+    expect(state.transportIndex).toBe(1);
+    expect(downgradeEvents()).toHaveLength(1);
+  });
+
+  it('should report built-in transport names', () => {
+    const handler = new TransportHandler<string>(
+      state,
+      normalizeOptions({
+        url: 'ws://test.com',
+        fallback: { transports: ['sse', 'long-polling'], after: 1 },
+      }),
+      eventHandler
+    );
+
+    handler.reportFailure();
+    handler.reportFailure();
+
+    expect(downgradeEvents()).toEqual([
+      { from: 'websocket', to: 'sse' },
+      { from: 'sse', to: 'long-polling' },
+    ]);
+  });
+});
@@ -1,4 +1,5 @@
 import { vi } from 'vitest';
+import type { NetworkChange } from '../src/types.js';
 
 // Mock CloseEvent for Node.js test environment
 if (typeof globalThis.CloseEvent === 'undefined') {
@@ -31,7 +32,8 @@ export class MockWebSocket {
   onclose: ((event: CloseEvent) => void) | null = null;
   onerror: ((event: Event) => void) | null = null;
   onmessage: ((event: MessageEvent) => void) | null = null;
-  sentMessages: (string | ArrayBuffer | Blob)[] = [];
+  binaryType: 'arraybuffer' | 'blob' = 'blob';
+  sentMessages: (string | ArrayBuffer | Blob | ArrayBufferView)[] = [];
 
   constructor(url: string, protocols?: string | string[]) {
     this.url = url;
@@ -45,7 +47,7 @@ export class MockWebSocket {
     }, 0);
   }
 
-  send(data: string | ArrayBuffer | Blob) {
+  send(data: string | ArrayBuffer | Blob | ArrayBufferView) {
     this.sentMessages.push(data);
   }
 
@@ -65,7 +67,7 @@ export class MockWebSocket {
   }
 
   // Test helper: Simulate message from server
-  simulateMessage(data: string) {
+  simulateMessage(data: string | ArrayBuffer | Blob) {
     if (this.onmessage) {
       this.onmessage(new MessageEvent('message', { data }));
     }
@@ -121,3 +123,31 @@ export function cleanupWebSocketMock() {
   // Don't delete WebSocket as it might be needed by other tests
   // Tests should restore it manually if needed
 }
+
+// Controllable NetworkEnvironment for network/visibility tests
+export function createFakeNetworkEnvironment() {
+  const listeners = new Set<(change: NetworkChange) => void>();
+  const environment = {
+    online: true,
+    visible: true,
+    isOnline: () => environment.online,
+    isVisible: () => environment.visible,
+    subscribe(listener: (change: NetworkChange) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    // Test helper: update the status and notify listeners
+    change(change: NetworkChange) {
+      if (change === 'online' || change === 'offline') {
+        environment.online = change === 'online';
+      } else {
+        environment.visible = change === 'visible';
+      }
+      listeners.forEach(listener => listener(change));
+    },
+    listenerCount: () => listeners.size,
+  };
+  return environment;
+}
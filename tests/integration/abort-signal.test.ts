@@ -372,6 +372,7 @@ describe('AbortSignal Integration', () => {
       const eventPromise = (async () => {
         try {
           for await (const event of socket.events({ signal: controller.signal })) {
+            if (event.type === 'stateChange') continue;
             events.push(event);
             // Exit after receiving 2 events (open + close) to test polling detection (covers line 92-95)
             if (events.length >= 2) {
@@ -9,6 +9,8 @@
  * - Sending multiple messages via sendMessages()
  * - Buffer clearing logic (when no active iterators)
  * - Buffering behavior (messages are not buffered when no active iterators)
+ * - Fan-out to multiple concurrent messages()/events() iterators
+ * - filter/map options on messages() and types/filter/map options on events()
  *
  * Boundaries:
  * - AbortSignal integration is tested in detail in abort-signal.test.ts
@@ -187,4 +189,151 @@ describe('Generator-Based API (Async Iterables)', () => {
     // Callbacks should work (messages were not buffered)
     expect(socket).toBeDefined();
   });
+
+  it('should deliver every message to every concurrent messages() iterator', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.runAllTimersAsync();
+    const ws = createdWebSockets[0];
+
+    const controller = new AbortController();
+    const consume = async (target: string[], options?: Parameters<typeof socket.messages>[0]) => {
+      for await (const msg of socket.messages({ ...options, signal: controller.signal })) {
+        target.push(msg);
+      }
+    };
+    const first: string[] = [];
+    const second: string[] = [];
+    const small: string[] = [];
+    const consumers = Promise.all([
+      consume(first),
+      consume(second),
+      consume(small, { buffer: { size: 1, overflow: 'oldest' } }),
+    ]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    ws.simulateMessage('msg1');
+    ws.simulateMessage('msg2');
+    ws.simulateMessage('msg3');
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumers;
+
+    expect(first).toEqual(['msg1', 'msg2', 'msg3']);
+    expect(second).toEqual(['msg1', 'msg2', 'msg3']);
+    // Per-iterator buffer of size 1 only keeps the latest message
+    expect(small).toEqual(['msg3']);
+  });
+
+  it('should deliver every event to every concurrent events() iterator', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.runAllTimersAsync();
+    const ws = createdWebSockets[0];
+
+    const controller = new AbortController();
+    const consume = async (target: string[]) => {
+      for await (const event of socket.events({ signal: controller.signal })) {
+        if (event.type === 'received') {
+          target.push(event.meta?.message as string);
+        }
+      }
+    };
+    const first: string[] = [];
+    const second: string[] = [];
+    const consumers = Promise.all([consume(first), consume(second)]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    ws.simulateMessage('msg1');
+    ws.simulateMessage('msg2');
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumers;
+
+    expect(first).toEqual(['msg1', 'msg2']);
+    expect(second).toEqual(['msg1', 'msg2']);
+  });
+
+  it('should filter and map messages() iterators', async () => {
+    const socket = createSocket<{ n: number }>({ url: 'ws://test.com' });
+    await vi.runAllTimersAsync();
+    const ws = createdWebSockets[0];
+
+    const controller = new AbortController();
+    const values: number[] = [];
+    const consumer = (async () => {
+      for await (const n of socket.messages({
+        signal: controller.signal,
+        buffer: { size: 2, overflow: 'newest' },
+        filter: message => message.n % 2 === 0,
+        map: message => message.n * 10,
+      })) {
+        values.push(n);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Odd messages are dropped before buffering, so they take no buffer slots
+    ws.simulateMessage('{"n":1}');
+    ws.simulateMessage('{"n":2}');
+    ws.simulateMessage('{"n":3}');
+    ws.simulateMessage('{"n":4}');
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumer;
+
+    expect(values).toEqual([20, 40]);
+  });
+
+  it('should only yield events of the requested types', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: false });
+    const controller = new AbortController();
+    const types: string[] = [];
+    const consumer = (async () => {
+      for await (const type of socket.events({
+        signal: controller.signal,
+        types: ['open', 'close'],
+        map: event => event.type,
+      })) {
+        types.push(type);
+      }
+    })();
+    await vi.runAllTimersAsync();
+    const ws = createdWebSockets[0];
+
+    ws.simulateMessage('msg1');
+    socket.send('msg2');
+    ws.close(1000, 'bye');
+    await vi.advanceTimersByTimeAsync(0);
+    await consumer;
+
+    expect(types).toEqual(['open', 'close']);
+  });
+
+  it('should apply types and filter to recent events kept before the iterator started', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.runAllTimersAsync();
+    const ws = createdWebSockets[0];
+    ws.simulateMessage('skip');
+    ws.simulateMessage('keep');
+
+    const controller = new AbortController();
+    const messages: unknown[] = [];
+    const consumer = (async () => {
+      for await (const event of socket.events({
+        signal: controller.signal,
+        types: ['received'],
+        filter: event => event.meta?.message === 'keep',
+      })) {
+        messages.push(event.meta?.message);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumer;
+
+    expect(messages).toEqual(['keep']);
+  });
 });
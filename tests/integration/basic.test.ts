@@ -86,6 +86,8 @@ describe('Basic Functionality', () => {
       url: 'ws://test.com',
       reconnect: false,
     });
+    // connect() is rejected while a connection attempt is already in progress
+    socket.close();
 
     cleanupWebSocketMock();
     const newSpy = setupWebSocketMock();
@@ -0,0 +1,169 @@
+/**
+ * before-connect.test.ts
+ *
+ * Purpose: Integration tests for the URL provider and beforeConnect hook
+ *
+ * Test Coverage:
+ * - Sync and async URL providers resolved on every connection attempt
+ * - beforeConnect changing url/protocols and receiving the attempt number
+ * - Provider/hook failures emitting error events and going through reconnect backoff
+ * - close() while an async provider is pending
+ * - close() then connect() while an async beforeConnect hook is pending
+ *
+ * Boundaries:
+ * - Reconnect scheduling itself is tested in reconnection.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { createTestServer } from '../../src/testing.js';
+import type { ConnectContext, SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('URL Provider and beforeConnect', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should resolve a sync URL provider on every attempt', async () => {
+    let token = 0;
+    const socket = createSocket({
+      url: () => `ws://test.com?token=${++token}`,
+      reconnect: { interval: 100 },
+    });
+    expect(createdWebSockets[0].url).toBe('ws://test.com?token=1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(createdWebSockets[1].url).toBe('ws://test.com?token=2');
+    socket.close();
+  });
+
+  it('should wait for an async URL provider', async () => {
+    const socket = createSocket({
+      url: () => new Promise(resolve => setTimeout(() => resolve('ws://async.test'), 50)),
+    });
+    expect(socket.state).toBe('connecting');
+    expect(createdWebSockets).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(createdWebSockets[0].url).toBe('ws://async.test');
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should let beforeConnect change url and protocols per attempt', async () => {
+    const contexts: ConnectContext[] = [];
+    const socket = createSocket({
+      url: 'ws://test.com',
+      protocols: 'v1',
+      reconnect: { interval: 100 },
+      beforeConnect: async context => {
+        contexts.push({ ...context });
+        context.url = `${context.url}?attempt=${context.attempt}`;
+        context.protocols = ['v2'];
+      },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(contexts).toEqual([
+      { url: 'ws://test.com', protocols: 'v1', attempt: 0 },
+      { url: 'ws://test.com', protocols: 'v1', attempt: 1 },
+    ]);
+    expect(createdWebSockets[0].url).toBe('ws://test.com?attempt=0');
+    expect(createdWebSockets[1].url).toBe('ws://test.com?attempt=1');
+    expect(createdWebSockets[1].protocols).toEqual(['v2']);
+    socket.close();
+  });
+
+  it('should route hook failures through reconnect backoff', async () => {
+    let calls = 0;
+    const errors: SocketEvent[] = [];
+    const socket = createSocket({
+      url: 'ws://test.com',
+      reconnect: { interval: 100, backoff: 'linear' },
+      beforeConnect: async () => {
+        if (++calls === 1) throw new Error('token refresh failed');
+      },
+    });
+    socket.onEvent(event => {
+      if (event.type === 'error') errors.push(event);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(errors[0].meta).toMatchObject({ reason: 'beforeConnect' });
+    expect(socket.state).toBe('reconnecting');
+    expect(createdWebSockets).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(createdWebSockets).toHaveLength(1);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should move to closed when the provider throws and reconnect is disabled', () => {
+    const socket = createSocket({
+      url: () => {
+        throw new Error('no url');
+      },
+      reconnect: false,
+    });
+
+    expect(socket.state).toBe('closed');
+    expect(createdWebSockets).toHaveLength(0);
+  });
+
+  it('should not open a socket when closed while the provider is pending', async () => {
+    const socket = createSocket({
+      url: () => new Promise(resolve => setTimeout(() => resolve('ws://async.test'), 50)),
+    });
+
+    socket.close();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(createdWebSockets).toHaveLength(0);
+    expect(socket.state).toBe('closed');
+  });
+  it('should ignore the closed socket when connect() follows close() during an async hook', async () => {
+    const server = createTestServer();
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100 },
+      beforeConnect: () => new Promise<void>(resolve => setTimeout(resolve, 50)),
+    });
+    await vi.advanceTimersByTimeAsync(60);
+    expect(socket.state).toBe('open');
+
+    const states: unknown[] = [];
+    const closes = vi.fn();
+    socket.onEvent(event => {
+      if (event.type === 'stateChange') states.push(event.meta?.to);
+      if (event.type === 'close') closes();
+    });
+
+    socket.close();
+    socket.connect();
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(states).toEqual(['closing', 'connecting', 'open']);
+    expect(closes).toHaveBeenCalledTimes(1);
+    expect(server.connections).toHaveLength(2);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * binary.test.ts
+ *
+ * Purpose: Integration tests for binary message support
+ *
+ * Test Coverage:
+ * - binaryType option applied to the WebSocket
+ * - Binary frames delivered intact to onMessage() and messages()
+ * - Binary data (ArrayBuffer, Uint8Array, Blob) preserved in the send queue
+ *
+ * Boundaries:
+ * - Basic send() of ArrayBuffer/Blob while connected is tested in basic.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Binary Messages', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should apply binaryType option', async () => {
+    const socket = createSocket({ url: 'ws://test.com', binaryType: 'blob' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(createdWebSockets[0].binaryType).toBe('blob');
+    socket.close();
+  });
+
+  it('should deliver ArrayBuffer frames intact to onMessage', async () => {
+    const socket = createSocket<string | ArrayBuffer>({ url: 'ws://test.com' });
+    const received: (string | ArrayBuffer)[] = [];
+    socket.onMessage(msg => received.push(msg));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const frame = new Uint8Array([1, 2, 3]).buffer;
+    createdWebSockets[0].simulateMessage(frame);
+    createdWebSockets[0].simulateMessage('123');
+
+    expect(received[0]).toBe(frame);
+    expect(received[1]).toBe(123);
+    socket.close();
+  });
+
+  it('should deliver binary frames intact to messages()', async () => {
+    const socket = createSocket<ArrayBuffer>({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const received: ArrayBuffer[] = [];
+    const controller = new AbortController();
+    const consumer = (async () => {
+      for await (const msg of socket.messages({ signal: controller.signal })) {
+        received.push(msg);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const frame = new Uint8Array([4, 5, 6]).buffer;
+    createdWebSockets[0].simulateMessage(frame);
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumer;
+
+    expect(received).toHaveLength(1);
+    expect(new Uint8Array(received[0])).toEqual(new Uint8Array([4, 5, 6]));
+    socket.close();
+  });
+
+  it('should queue binary data intact while offline and flush on open', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+
+    const buffer = new ArrayBuffer(4);
+    const bytes = new Uint8Array([7, 8]);
+    const blob = new Blob(['data']);
+    socket.send(buffer);
+    socket.send(bytes);
+    socket.send(blob);
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(createdWebSockets[0].sentMessages).toEqual([buffer, bytes, blob]);
+    expect(createdWebSockets[0].sentMessages[0]).toBe(buffer);
+    expect(createdWebSockets[0].sentMessages[1]).toBe(bytes);
+    socket.close();
+  });
+});
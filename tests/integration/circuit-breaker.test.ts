@@ -0,0 +1,77 @@
+/**
+ * circuit-breaker.test.ts
+ *
+ * Purpose: Integration tests for the circuit breaker around reconnect attempts
+ *
+ * Test Coverage:
+ * - Holding reconnects back for the cooldown once the circuit opens
+ * - Closing the circuit when the half-open attempt connects
+ * - Socket.circuitState
+ *
+ * Boundaries:
+ * - Failure counting and state transitions are tested in handlers/circuit-breaker-handler.test.ts
+ * - Backoff between attempts while the circuit is closed is tested in reconnection.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Circuit Breaker', () => {
+  let spy: ReturnType<typeof setupWebSocketMock>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    spy = setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should wait for the cooldown once open and close after a successful attempt', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      reconnect: { interval: 100, backoff: 'linear', jitter: 0 },
+      circuitBreaker: { threshold: 2, window: 10000, cooldown: 5000 },
+    });
+    const events: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'circuitChange') events.push(event);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    spy.mockImplementationOnce(function () {
+      throw new Error('Connection refused');
+    });
+    createdWebSockets[0].close(1006);
+    // The close and the refused attempt 100ms later reach the threshold
+    await vi.advanceTimersByTimeAsync(110);
+    expect(socket.circuitState).toBe('open');
+
+    await vi.advanceTimersByTimeAsync(4800);
+    expect(createdWebSockets).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(createdWebSockets).toHaveLength(2);
+    expect(socket.state).toBe('open');
+    expect(socket.circuitState).toBe('closed');
+    expect(events.map(event => event.meta?.to)).toEqual(['open', 'half-open', 'closed']);
+    socket.close();
+  });
+
+  it('should report closed while disabled', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: { interval: 100 } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    for (let i = 0; i < 6; i++) {
+      createdWebSockets.at(-1)?.close(1006);
+      await vi.advanceTimersByTimeAsync(200);
+    }
+
+    expect(socket.circuitState).toBe('closed');
+    socket.close();
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * codec.test.ts
+ *
+ * Purpose: Integration tests for the codec option and built-in codecs
+ *
+ * Test Coverage:
+ * - Built-in json, text and raw codecs
+ * - Custom sync codecs applied to send(), queued messages, onMessage() and messages()
+ * - Async codecs preserving message order
+ * - Codec failures reported as error events, including ones queued behind a pending async message
+ *
+ * Boundaries:
+ * - Binary frame handling is tested in binary.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket, { jsonCodec, textCodec, rawCodec } from '../../src/index.js';
+import type { Codec, SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Codecs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  describe('built-in codecs', () => {
+    it('should parse JSON with string fallback in json codec', () => {
+      expect(jsonCodec.decode('{"a":1}')).toEqual({ a: 1 });
+      expect(jsonCodec.decode('123')).toBe(123);
+      expect(jsonCodec.decode('plain')).toBe('plain');
+      expect(jsonCodec.encode({ a: 1 })).toBe('{"a":1}');
+    });
+
+    it('should keep text as-is and decode binary in text codec', async () => {
+      expect(textCodec.decode('123')).toBe('123');
+      expect(textCodec.decode(new TextEncoder().encode('héllo').buffer)).toBe('héllo');
+      await expect(textCodec.decode(new Blob(['blob text']))).resolves.toBe('blob text');
+      expect(textCodec.encode(42)).toBe('42');
+      expect(textCodec.encode('{"a":1}')).toBe('{"a":1}');
+    });
+
+    it('should pass data through in raw codec', () => {
+      const buffer = new ArrayBuffer(2);
+      expect(rawCodec.decode('{"a":1}')).toBe('{"a":1}');
+      expect(rawCodec.encode(buffer)).toBe(buffer);
+    });
+  });
+
+  it('should keep numeric strings as strings with text codec', async () => {
+    const socket = createSocket({ url: 'ws://test.com', codec: 'text' });
+    const received: string[] = [];
+    socket.onMessage(msg => received.push(msg));
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].simulateMessage('123');
+
+    expect(received).toEqual(['123']);
+    socket.close();
+  });
+
+  it('should use custom codec for send, queue, onMessage and messages()', async () => {
+    const codec: Codec<{ n: number }, { n: number }> = {
+      encode: data => `n=${data.n}`,
+      decode: data => ({ n: Number(String(data).slice(2)) }),
+    };
+    const socket = createSocket<{ n: number }, { n: number }>({ url: 'ws://test.com', codec });
+
+    // Queued while connecting
+    socket.send({ n: 1 });
+    await vi.advanceTimersByTimeAsync(0);
+    socket.send({ n: 2 });
+
+    const ws = createdWebSockets[0];
+    expect(ws.sentMessages).toEqual(['n=1', 'n=2']);
+
+    const callbackMessages: { n: number }[] = [];
+    socket.onMessage(msg => callbackMessages.push(msg));
+
+    const iteratorMessages: { n: number }[] = [];
+    const controller = new AbortController();
+    const consumer = (async () => {
+      for await (const msg of socket.messages({ signal: controller.signal })) {
+        iteratorMessages.push(msg);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    ws.simulateMessage('n=3');
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await consumer;
+
+    expect(callbackMessages).toEqual([{ n: 3 }]);
+    expect(iteratorMessages).toEqual([{ n: 3 }]);
+    socket.close();
+  });
+
+  it('should preserve order with async codec', async () => {
+    const delays: Record<string, number> = { a: 30, b: 0, c: 10 };
+    const codec: Codec<string, string> = {
+      encode: data => new Promise(resolve => setTimeout(() => resolve(data), delays[data])),
+      decode: data =>
+        new Promise(resolve => setTimeout(() => resolve(String(data)), delays[String(data)])),
+    };
+    const socket = createSocket<string, string>({ url: 'ws://test.com', codec });
+    const received: string[] = [];
+    socket.onMessage(msg => received.push(msg));
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+
+    socket.send('a');
+    socket.send('b');
+    socket.send('c');
+    ws.simulateMessage('a');
+    ws.simulateMessage('b');
+    ws.simulateMessage('c');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(ws.sentMessages).toEqual(['a', 'b', 'c']);
+    expect(received).toEqual(['a', 'b', 'c']);
+    socket.close();
+  });
+
+  it('should emit error event when decode fails', async () => {
+    const codec: Codec = {
+      encode: data => String(data),
+      decode: data => {
+        if (data === 'bad') throw new Error('decode failed');
+        return data;
+      },
+    };
+    const socket = createSocket({ url: 'ws://test.com', codec });
+    const received: unknown[] = [];
+    const errors: SocketEvent[] = [];
+    socket.onMessage(msg => received.push(msg));
+    socket.onEvent(event => {
+      if (event.type === 'error') errors.push(event);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].simulateMessage('bad');
+    createdWebSockets[0].simulateMessage('good');
+
+    expect(received).toEqual(['good']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].meta?.reason).toBe('decode');
+    socket.close();
+  });
+
+  it('should emit error event when async encode rejects', async () => {
+    const codec: Codec = {
+      encode: () => Promise.reject(new Error('encode failed')),
+      decode: data => data,
+    };
+    const socket = createSocket({ url: 'ws://test.com', codec });
+    const errors: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'error') errors.push(event);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    socket.send('x');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(createdWebSockets[0].sentMessages).toEqual([]);
+    expect(errors[0].meta?.reason).toBe('encode');
+    socket.close();
+  });
+
+  it('should not leave rejections behind a pending async decode or encode unhandled', async () => {
+    const slowOrBad = (data: unknown) =>
+      data === 'slow'
+        ? new Promise<string>(resolve => setTimeout(() => resolve('slow'), 20))
+        : Promise.reject(new Error('bad frame'));
+    const codec: Codec<string, string> = { encode: slowOrBad, decode: slowOrBad };
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+    const socket = createSocket<string, string>({ url: 'ws://test.com', codec });
+    const received: string[] = [];
+    const reasons: unknown[] = [];
+    socket.onMessage(msg => received.push(msg));
+    socket.onEvent(event => {
+      if (event.type === 'error') reasons.push(event.meta?.reason);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+
+    ws.simulateMessage('slow');
+    ws.simulateMessage('bad');
+    socket.send('slow');
+    socket.send('bad');
+    await vi.advanceTimersByTimeAsync(50);
+    // Unhandled rejections are reported once the current macrotask ends
+    vi.useRealTimers();
+    await new Promise(resolve => setImmediate(resolve));
+    process.off('unhandledRejection', unhandled);
+
+    expect(unhandled).not.toHaveBeenCalled();
+    expect(received).toEqual(['slow']);
+    expect(ws.sentMessages).toEqual(['slow']);
+    expect(reasons).toEqual(['decode', 'encode']);
+    socket.close();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * connect-timeout.test.ts
+ *
+ * Purpose: Integration tests for aborting hanging handshakes with connectTimeout
+ *
+ * Test Coverage:
+ * - Aborting an attempt stuck in CONNECTING and emitting an error with reason 'timeout'
+ * - Retrying through the regular reconnect backoff
+ * - Leaving attempts that open in time and the default (disabled) untouched
+ *
+ * Boundaries:
+ * - Reconnect backoff itself is tested in reconnection.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('connectTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  // Keep the first handshake from ever completing
+  const hangFirstAttempt = () => {
+    createdWebSockets[0].onopen = null;
+  };
+
+  it('should abort a hanging attempt and retry with backoff', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      connectTimeout: 1000,
+      reconnect: { interval: 100, backoff: 'linear', jitter: 0 },
+    });
+    const events: SocketEvent[] = [];
+    socket.onEvent(event => events.push(event));
+    hangFirstAttempt();
+    const closeSpy = vi.spyOn(createdWebSockets[0], 'close');
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(events.some(event => event.type === 'error')).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(closeSpy).toHaveBeenCalled();
+    expect(socket.state).toBe('reconnecting');
+    const error = events.find(event => event.type === 'error');
+    expect(error?.meta?.reason).toBe('timeout');
+    expect((error?.meta?.error as Error).message).toBe('Connection timed out after 1000ms');
+    expect(events.find(event => event.type === 'reconnect')?.meta).toEqual({
+      attempt: 1,
+      interval: 100,
+    });
+
+    await vi.advanceTimersByTimeAsync(110);
+    expect(createdWebSockets).toHaveLength(2);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should not time out an attempt that opens in time', async () => {
+    const socket = createSocket({ url: 'ws://test.com', connectTimeout: 1000 });
+    const onError = vi.fn();
+    socket.onEvent(event => {
+      if (event.type === 'error') onError(event);
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should wait indefinitely by default', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    hangFirstAttempt();
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(socket.state).toBe('connecting');
+    expect(createdWebSockets).toHaveLength(1);
+    socket.close();
+  });
+});
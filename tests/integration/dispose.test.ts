@@ -0,0 +1,109 @@
+/**
+ * dispose.test.ts
+ *
+ * Purpose: Integration tests for the close()/connect() and dispose() lifecycle
+ *
+ * Test Coverage:
+ * - connect() after close() restores automatic reconnection
+ * - dispose() finishing messages() and events() iterators
+ * - dispose() rejecting pending ready() and request() calls
+ * - await using with Symbol.asyncDispose
+ *
+ * Boundaries:
+ * - Teardown details are tested in handlers/connection-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Socket Lifecycle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should auto-reconnect again after close() and connect()', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: { interval: 100 } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    socket.close();
+    await vi.advanceTimersByTimeAsync(0);
+    socket.connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[1].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(createdWebSockets).toHaveLength(3);
+    expect(socket.state).toBe('open');
+    socket.dispose();
+  });
+
+  it('should finish messages() iterators after draining buffered messages', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const received: unknown[] = [];
+    const consumer = (async () => {
+      for await (const msg of socket.messages()) {
+        received.push(msg);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].simulateMessage('a');
+    socket.dispose();
+    await consumer;
+
+    expect(received).toEqual(['a']);
+  });
+
+  it('should finish events() iterators with the disposed state change', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const events: SocketEvent[] = [];
+    const consumer = (async () => {
+      for await (const event of socket.events()) {
+        events.push(event);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    socket.dispose();
+    await consumer;
+
+    expect(events.at(-1)).toMatchObject({ type: 'stateChange', meta: { to: 'disposed' } });
+  });
+
+  it('should reject pending ready() and request() calls', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    const ready = socket.ready();
+    const reply = socket.request({ type: 'ping' });
+
+    socket.dispose();
+
+    await expect(ready).rejects.toThrow('Socket disposed');
+    await expect(reply).rejects.toThrow('Socket disposed');
+    await expect(socket.ready()).rejects.toThrow('Socket disposed');
+  });
+
+  it('should dispose at the end of an await using block', async () => {
+    let disposed: ReturnType<typeof createSocket> | undefined;
+    {
+      await using socket = createSocket({ url: 'ws://test.com' });
+      await vi.advanceTimersByTimeAsync(0);
+      disposed = socket;
+    }
+
+    expect(disposed.state).toBe('disposed');
+    expect(createdWebSockets[0].readyState).toBe(WebSocket.CLOSING);
+  });
+});
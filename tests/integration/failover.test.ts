@@ -0,0 +1,83 @@
+/**
+ * failover.test.ts
+ *
+ * Purpose: Integration tests for multi-endpoint failover
+ *
+ * Test Coverage:
+ * - Failing over to the next endpoint when the active one drops
+ * - open and failover events reporting the active endpoint
+ * - Returning to the primary after a successful probe
+ * - Rejecting an empty url list
+ *
+ * Boundaries:
+ * - Selection strategies and per-endpoint backoff are tested in handlers/endpoint-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Multi-endpoint Failover', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should fail over to the next endpoint and report it in events', async () => {
+    const socket = createSocket({
+      url: ['ws://primary.test', 'ws://secondary.test'],
+      reconnect: { interval: 100 },
+      failover: { probeInterval: 0 },
+    });
+    const events: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'open' || event.type === 'failover') events.push(event);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(createdWebSockets[1].url).toBe('ws://secondary.test');
+    expect(events.map(event => [event.type, event.meta])).toEqual([
+      ['open', { url: 'ws://primary.test' }],
+      ['failover', { from: 'ws://primary.test', to: 'ws://secondary.test' }],
+      ['open', { url: 'ws://secondary.test' }],
+    ]);
+    socket.close();
+  });
+
+  it('should switch back to the primary once a probe reaches it', async () => {
+    const socket = createSocket({
+      url: ['ws://primary.test', 'ws://secondary.test'],
+      reconnect: { interval: 100 },
+      failover: { strategy: 'priority', probeInterval: 5000 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+    const secondary = createdWebSockets[1];
+    expect(secondary.url).toBe('ws://secondary.test');
+
+    await vi.advanceTimersByTimeAsync(5000);
+    const probe = createdWebSockets[2];
+    expect(probe.url).toBe('ws://primary.test');
+
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(secondary.readyState).toBe(WebSocket.CLOSED);
+    expect(createdWebSockets[3].url).toBe('ws://primary.test');
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should reject an empty url list', () => {
+    expect(() => createSocket({ url: [] })).toThrow('At least one URL is required');
+  });
+});
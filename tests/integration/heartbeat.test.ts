@@ -0,0 +1,136 @@
+/**
+ * heartbeat.test.ts
+ *
+ * Purpose: Integration tests for heartbeat-based dead-connection detection
+ *
+ * Test Coverage:
+ * - Pings are sent while the connection is open, encoded by the configured codec
+ * - Pongs are not delivered to message consumers
+ * - Missed pong force-closes the connection and reconnects
+ * - Heartbeat stops on manual close
+ *
+ * Boundaries:
+ * - Ping/pong timing details are tested in handlers/heartbeat-handler.test.ts
+ * - Reconnection backoff is tested in reconnection.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { Codec, SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Heartbeat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should encode pings with the configured codec', async () => {
+    const encoder = new TextEncoder();
+    const binaryCodec: Codec = {
+      encode: data => encoder.encode(JSON.stringify(data)),
+      decode: data => new TextDecoder().decode(data as ArrayBuffer),
+    };
+    const socket = createSocket({
+      url: 'ws://test.com',
+      codec: binaryCodec,
+      heartbeat: { interval: 1000, timeout: 500, message: { type: 'ping' } },
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const [ping] = createdWebSockets[0].sentMessages;
+    expect(ping).toBeInstanceOf(Uint8Array);
+    expect(new TextDecoder().decode(ping as Uint8Array)).toBe('{"type":"ping"}');
+    socket.close();
+  });
+
+  it('should send pings once an async codec has encoded them', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      codec: {
+        encode: data =>
+          new Promise<string>(resolve => setTimeout(() => resolve(`ping:${String(data)}`), 10)),
+        decode: data => data,
+      },
+      heartbeat: { interval: 1000, timeout: 500 },
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(createdWebSockets[0].sentMessages).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(createdWebSockets[0].sentMessages).toEqual(['ping:ping']);
+    socket.close();
+  });
+
+  it('should keep connection alive while pongs arrive', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      heartbeat: { interval: 1000, timeout: 500 },
+    });
+    const messages: string[] = [];
+    socket.onMessage(msg => messages.push(msg));
+
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(1000);
+      ws.simulateMessage('pong');
+    }
+
+    expect(ws.sentMessages).toEqual(['ping', 'ping', 'ping']);
+    expect(messages).toEqual([]);
+    expect(createdWebSockets.length).toBe(1);
+
+    socket.close();
+  });
+
+  it('should force-close and reconnect when pong is missed', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      reconnect: { interval: 100 },
+      heartbeat: { interval: 1000, timeout: 500 },
+    });
+    const events: SocketEvent[] = [];
+    socket.onEvent(event => events.push(event));
+
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+    const closeSpy = vi.spyOn(ws, 'close');
+
+    await vi.advanceTimersByTimeAsync(1500);
+
+    expect(closeSpy).toHaveBeenCalled();
+    expect(events.map(e => e.type)).toEqual(
+      expect.arrayContaining(['timeout', 'close', 'reconnect'])
+    );
+    const closeEvent = events.find(e => e.type === 'close');
+    expect(closeEvent?.meta).toEqual(
+      expect.objectContaining({ reason: 'Heartbeat timeout', wasClean: false })
+    );
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(createdWebSockets.length).toBe(2);
+
+    socket.close();
+  });
+
+  it('should stop pinging after manual close', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      heartbeat: { interval: 1000, timeout: 500 },
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+    socket.close();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(ws.sentMessages).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * iterator-close.test.ts
+ *
+ * Purpose: Integration tests for messages()/events() iterators ending when the socket closes
+ *
+ * Test Coverage:
+ * - Iterators completing after close() and after reconnect attempts are exhausted
+ * - onClose: 'throw' rejecting with SocketClosedError
+ * - Iterators surviving transient reconnects by default
+ * - persistent: false ending iterators when the connection drops
+ *
+ * Boundaries:
+ * - Ending iterators on dispose() is tested in dispose.test.ts
+ * - AbortSignal cancellation is tested in abort-signal.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket, { SocketClosedError } from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Iterator Termination', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should complete messages() after close() once buffered messages are consumed', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const received: unknown[] = [];
+    const consumer = (async () => {
+      for await (const msg of socket.messages()) {
+        received.push(msg);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].simulateMessage('last');
+    socket.close();
+    await vi.advanceTimersByTimeAsync(0);
+    await consumer;
+
+    expect(received).toEqual(['last']);
+  });
+
+  it('should complete events() after delivering the final close event', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: false });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const events: SocketEvent[] = [];
+    const consumer = (async () => {
+      for await (const event of socket.events()) {
+        events.push(event);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(0);
+    await consumer;
+
+    expect(events.map(event => event.type).slice(-2)).toEqual(['close', 'stateChange']);
+    expect(events.at(-1)?.meta?.to).toBe('closed');
+  });
+
+  it('should throw SocketClosedError when reconnect attempts are exhausted', async () => {
+    const spy = setupWebSocketMock();
+    const socket = createSocket({
+      url: 'ws://test.com',
+      reconnect: { attempts: 1, interval: 100 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const consumer = (async () => {
+      for await (const msg of socket.messages({ onClose: 'throw' })) {
+        void msg;
+      }
+    })();
+    const assertion = expect(consumer).rejects.toThrow(SocketClosedError);
+
+    spy.mockImplementation(function () {
+      throw new Error('Connection refused');
+    });
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await assertion;
+    await expect(consumer).rejects.toMatchObject({ state: 'failed', message: 'Socket failed' });
+  });
+
+  it('should keep iterating across transient reconnects by default', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: { interval: 100 } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const received: unknown[] = [];
+    const controller = new AbortController();
+    const consumer = (async () => {
+      for await (const msg of socket.messages({ signal: controller.signal })) {
+        received.push(msg);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+    createdWebSockets[1].simulateMessage('after reconnect');
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumer;
+    expect(received).toEqual(['after reconnect']);
+    socket.close();
+  });
+
+  it('should end non-persistent iterators when the connection drops', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: { interval: 100 } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const consumer = (async () => {
+      for await (const msg of socket.messages({ persistent: false, onClose: 'throw' })) {
+        void msg;
+      }
+    })();
+    const assertion = expect(consumer).rejects.toMatchObject({ state: 'reconnecting' });
+
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(0);
+
+    await assertion;
+    expect(socket.state).toBe('reconnecting');
+    socket.close();
+  });
+});
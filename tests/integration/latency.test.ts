@@ -0,0 +1,82 @@
+/**
+ * latency.test.ts
+ *
+ * Purpose: Integration tests for round-trip latency through socket.latency and socket.ping()
+ *
+ * Test Coverage:
+ * - latency events and the socket.latency getter fed by heartbeat pongs
+ * - socket.ping() against a server that answers pings
+ * - Statistics reset on reconnect
+ *
+ * Boundaries:
+ * - Statistics and ping() details are tested in handlers/heartbeat-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { createTestServer } from '../../src/testing.js';
+import type { SocketEvent, TestServer } from '../../src/types.js';
+
+describe('Latency', () => {
+  let server: TestServer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = createTestServer({ latency: 25 });
+    server.onMessage((data, connection) => {
+      if (data === 'ping') connection.push('pong');
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report latency from heartbeat pongs', async () => {
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      heartbeat: { interval: 1000 },
+    });
+    const latencyEvents: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'latency') latencyEvents.push(event);
+    });
+
+    await vi.advanceTimersByTimeAsync(25 + 1000 + 50);
+
+    expect(latencyEvents).toHaveLength(1);
+    expect(socket.latency).toMatchObject({ current: 50, min: 50, samples: 1 });
+    socket.close();
+  });
+
+  it('should measure on demand with ping()', async () => {
+    const socket = createSocket({ url: 'ws://test.local', transport: server.transport });
+    await vi.advanceTimersByTimeAsync(25);
+
+    const rtt = socket.ping();
+    await vi.advanceTimersByTimeAsync(50);
+
+    await expect(rtt).resolves.toBe(50);
+    expect(socket.latency?.current).toBe(50);
+    socket.close();
+  });
+
+  it('should reset statistics on reconnect', async () => {
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100 },
+    });
+    await vi.advanceTimersByTimeAsync(25);
+    const rtt = socket.ping();
+    await vi.advanceTimersByTimeAsync(50);
+    await rtt;
+
+    server.connection.drop();
+    await vi.advanceTimersByTimeAsync(25);
+
+    expect(socket.latency).toBeNull();
+    socket.close();
+  });
+});
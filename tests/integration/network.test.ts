@@ -0,0 +1,151 @@
+/**
+ * network.test.ts
+ *
+ * Purpose: Integration tests for online/offline and page visibility aware reconnection
+ *
+ * Test Coverage:
+ * - Pausing reconnects while offline without using up attempts
+ * - Reconnecting immediately when the network comes back
+ * - Disconnecting after hiddenTimeout and reconnecting when visible
+ * - Default browser environment outside a browser, and unsubscribing on dispose()
+ *
+ * Boundaries:
+ * - NetworkHandler state and events are tested in handlers/network-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import {
+  setupWebSocketMock,
+  cleanupWebSocketMock,
+  createdWebSockets,
+  createFakeNetworkEnvironment,
+} from '../helpers.js';
+
+describe('Network awareness', () => {
+  let environment: ReturnType<typeof createFakeNetworkEnvironment>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+    environment = createFakeNetworkEnvironment();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should pause reconnecting while offline and reconnect when back online', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      network: { environment },
+      reconnect: { interval: 100, attempts: 2 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    environment.change('offline');
+    createdWebSockets[0].close(1006, 'Network lost');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(socket.state).toBe('reconnecting');
+    expect(createdWebSockets).toHaveLength(1);
+
+    environment.change('online');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(createdWebSockets).toHaveLength(2);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should not use up attempts when going offline during the reconnect delay', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      network: { environment },
+      reconnect: { interval: 1000, attempts: 1 },
+    });
+    const reconnects: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'reconnect') reconnects.push(event);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006, 'Network lost');
+    await vi.advanceTimersByTimeAsync(10);
+    environment.change('offline');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(reconnects.map(event => event.meta?.attempt)).toEqual([1]);
+    expect(socket.state).toBe('reconnecting');
+
+    environment.change('online');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should skip the remaining backoff when the network comes back', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      network: { environment },
+      reconnect: { interval: 30000 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006, 'Network lost');
+    await vi.advanceTimersByTimeAsync(0);
+    environment.change('online');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(createdWebSockets).toHaveLength(2);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should disconnect after hiddenTimeout and reconnect when visible', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      network: { environment, hiddenTimeout: 5000 },
+    });
+    const closes: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'close') closes.push(event);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    environment.change('hidden');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(socket.state).toBe('reconnecting');
+    expect(closes[0]?.meta).toEqual({ code: 1000, reason: 'Page hidden', wasClean: true });
+
+    socket.send('queued while hidden');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(createdWebSockets).toHaveLength(1);
+
+    environment.change('visible');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(socket.state).toBe('open');
+    expect(createdWebSockets[1].sentMessages).toEqual(['queued while hidden']);
+    socket.close();
+  });
+
+  it('should connect with the default environment outside a browser', async () => {
+    const socket = createSocket({ url: 'ws://test.com', network: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(socket.state).toBe('open');
+    socket.dispose();
+  });
+
+  it('should stop listening on dispose', async () => {
+    const socket = createSocket({ url: 'ws://test.com', network: { environment } });
+    expect(environment.listenerCount()).toBe(1);
+
+    socket.dispose();
+    expect(environment.listenerCount()).toBe(0);
+  });
+});
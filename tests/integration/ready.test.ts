@@ -0,0 +1,167 @@
+/**
+ * ready.test.ts
+ *
+ * Purpose: Integration tests for Socket.ready() and Socket.waitFor()
+ *
+ * Test Coverage:
+ * - ready() resolving on open, immediately when already open, and after reconnect
+ * - ready() rejecting on timeout, when reconnect attempts are exhausted and when the socket is closed
+ * - waitFor() with event type and predicate, and waitFor('failed')
+ *
+ * Boundaries:
+ * - waitFor() matching, abort and listener cleanup are tested in handlers/event-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { createTestServer } from '../../src/testing.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('ready() and waitFor()', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should resolve ready() when the socket opens', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    const ready = socket.ready();
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(ready).resolves.toBeUndefined();
+    socket.close();
+  });
+
+  it('should resolve ready() immediately when already open', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(socket.ready()).resolves.toBeUndefined();
+    socket.close();
+  });
+
+  it('should resolve ready() after reconnecting', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: { interval: 100 } });
+    await vi.advanceTimersByTimeAsync(0);
+
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(socket.state).toBe('reconnecting');
+
+    let resolved = false;
+    const ready = socket.ready().then(() => (resolved = true));
+    await vi.advanceTimersByTimeAsync(200);
+
+    await ready;
+    expect(resolved).toBe(true);
+    expect(createdWebSockets).toHaveLength(2);
+    socket.close();
+  });
+
+  it('should reject ready() on timeout', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: { interval: 1000 } });
+    await vi.advanceTimersByTimeAsync(0);
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const ready = socket.ready({ timeout: 100 });
+    const assertion = expect(ready).rejects.toThrow('Timed out waiting for open after 100ms');
+    await vi.advanceTimersByTimeAsync(100);
+
+    await assertion;
+    socket.close();
+  });
+
+  it('should reject ready() when reconnect attempts are exhausted', async () => {
+    const spy = setupWebSocketMock();
+    const socket = createSocket({
+      url: 'ws://test.com',
+      reconnect: { attempts: 1, interval: 100 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const ready = socket.ready();
+    const assertion = expect(ready).rejects.toThrow('Reconnect attempts exhausted');
+    spy.mockImplementation(function () {
+      throw new Error('Connection refused');
+    });
+    await vi.advanceTimersByTimeAsync(200);
+
+    await assertion;
+    expect(socket.state).toBe('failed');
+    await expect(socket.ready()).rejects.toThrow('Reconnect attempts exhausted');
+  });
+
+  it('should reject ready() when the socket ends up closed without reconnecting', async () => {
+    const server = createTestServer();
+    server.onConnection(connection => connection.reject());
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: false,
+    });
+
+    const ready = socket.ready();
+    const assertion = expect(ready).rejects.toThrow('Socket closed');
+    await vi.advanceTimersByTimeAsync(10);
+
+    await assertion;
+    expect(socket.state).toBe('closed');
+  });
+
+  it('should reject ready() at once after close()', async () => {
+    const socket = createSocket({ url: 'ws://test.com', reconnect: { interval: 100 } });
+    await vi.advanceTimersByTimeAsync(0);
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const pending = socket.ready();
+    const assertion = expect(pending).rejects.toThrow('Socket closed');
+    socket.close();
+    await assertion;
+
+    expect(socket.state).toBe('closed');
+    await expect(socket.ready()).rejects.toThrow('Socket closed');
+  });
+
+  it('should resolve waitFor(failed) when reconnect attempts run out', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      reconnect: { attempts: 0 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const failed = socket.waitFor('failed');
+    createdWebSockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(failed).resolves.toMatchObject({
+      type: 'failed',
+      meta: { reason: 'reconnect_exhausted' },
+    });
+    expect(socket.state).toBe('failed');
+  });
+
+  it('should resolve waitFor() with the first event matching the predicate', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const received = socket.waitFor('received', event => {
+      const message = event.meta?.message as { type?: string };
+      return message.type === 'welcome';
+    });
+    createdWebSockets[0].simulateMessage(JSON.stringify({ type: 'other' }));
+    createdWebSockets[0].simulateMessage(JSON.stringify({ type: 'welcome' }));
+
+    await expect(received).resolves.toMatchObject({ meta: { message: { type: 'welcome' } } });
+    socket.close();
+  });
+});
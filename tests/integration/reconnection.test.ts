@@ -6,8 +6,11 @@
  * Test Coverage:
  * - Automatic reconnection on unexpected connection closure
  * - No reconnection on manual close
- * - Reconnection attempt limit
- * - Backoff strategies (linear, exponential)
+ * - Reconnection attempt limit, and a fresh budget for connect() after failed
+ * - Backoff strategies (linear, exponential, fibonacci, full-jitter, decorrelated)
+ * - Custom backoff functions and stopping reconnection with null
+ * - Configurable jitter ratio
+ * - Fatal and immediate close codes, shouldReconnect, and the failed event
  * - Maximum reconnection interval limit
  * - reconnect event emission
  *
@@ -19,7 +22,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import createSocket from '../../src/index.js';
-import type { SocketEvent } from '../../src/types.js';
+import { createTestServer } from '../../src/testing.js';
+import type { ConnectContext, ReconnectConfig, SocketEvent } from '../../src/types.js';
 import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
 
 describe('Reconnection', () => {
@@ -100,6 +104,30 @@ describe('Reconnection', () => {
     expect(createdWebSockets.length).toBeLessThanOrEqual(5); // Allow some margin
   });
 
+  it('should restart the attempt count when connect() is called after failed', async () => {
+    const server = createTestServer({ autoAccept: false });
+    server.onConnection(connection => connection.reject());
+    const attempts: number[] = [];
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { attempts: 2, interval: 100, jitter: 0 },
+      beforeConnect: (context: ConnectContext) => {
+        attempts.push(context.attempt);
+      },
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(socket.state).toBe('failed');
+    expect(server.connections).toHaveLength(3);
+
+    socket.connect();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(socket.state).toBe('failed');
+    expect(server.connections).toHaveLength(6);
+    expect(attempts).toEqual([0, 1, 2, 0, 1, 2]);
+  });
+
   it('should emit reconnect event with interval when scheduled', async () => {
     const socket = createSocket({
       url: 'ws://test.com',
@@ -292,4 +320,163 @@ describe('Reconnection', () => {
       expect(createdWebSockets.length).toBeGreaterThan(2);
     }
   });
+
+  describe('backoff strategies', () => {
+    // Drop the first connection and refuse every reconnect, collecting the
+    // scheduled delays until attempts run out
+    const collectIntervals = async (reconnect: ReconnectConfig) => {
+      const spy = setupWebSocketMock();
+      const socket = createSocket({ url: 'ws://test.com', reconnect });
+      await vi.advanceTimersByTimeAsync(0);
+
+      const intervals: number[] = [];
+      socket.onEvent(event => {
+        if (event.type === 'reconnect' && typeof event.meta?.interval === 'number') {
+          intervals.push(event.meta.interval);
+        }
+      });
+      spy.mockImplementation(function () {
+        throw new Error('Connection refused');
+      });
+      createdWebSockets[0].close(1006, 'Abnormal closure');
+      await vi.runAllTimersAsync();
+      return intervals;
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should apply the configured jitter ratio', async () => {
+      expect(
+        await collectIntervals({ attempts: 3, interval: 100, backoff: 'linear', jitter: 0 })
+      ).toEqual([100, 200, 300]);
+    });
+
+    it('should use fibonacci backoff', async () => {
+      expect(
+        await collectIntervals({ attempts: 5, interval: 100, backoff: 'fibonacci', jitter: 0 })
+      ).toEqual([100, 200, 300, 500, 800]);
+    });
+
+    it('should use full-jitter backoff', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(
+        await collectIntervals({
+          attempts: 4,
+          interval: 100,
+          backoff: 'full-jitter',
+          maxInterval: 500,
+        })
+      ).toEqual([50, 100, 200, 250]);
+    });
+
+    it('should use decorrelated backoff based on the previous delay', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(
+        await collectIntervals({
+          attempts: 3,
+          interval: 100,
+          backoff: 'decorrelated',
+          maxInterval: 2000,
+        })
+      ).toEqual([300, 900, 2000]);
+    });
+
+    it('should call a custom backoff function with attempt, last error and close details', async () => {
+      const backoff = vi.fn((attempt: number) => attempt * 50);
+      expect(await collectIntervals({ attempts: 2, backoff })).toEqual([50, 100]);
+      const closeEvent = { code: 1006, reason: 'Abnormal closure', wasClean: true };
+      expect(backoff).toHaveBeenNthCalledWith(1, 1, null, closeEvent);
+      expect(backoff).toHaveBeenNthCalledWith(2, 2, expect.any(Error), closeEvent);
+    });
+
+    it('should stop reconnecting when a custom backoff function returns null', async () => {
+      const socket = createSocket({
+        url: 'ws://test.com',
+        reconnect: {
+          backoff: (_attempt, _error, closeEvent) => (closeEvent?.code === 4003 ? null : 100),
+        },
+      });
+      await vi.advanceTimersByTimeAsync(0);
+      const reconnect = vi.fn();
+      socket.onEvent(event => {
+        if (event.type === 'reconnect') reconnect(event);
+      });
+
+      createdWebSockets[0].close(4003, 'Forbidden');
+      await vi.runAllTimersAsync();
+
+      expect(reconnect).not.toHaveBeenCalled();
+      expect(createdWebSockets).toHaveLength(1);
+      expect(socket.state).toBe('failed');
+    });
+  });
+
+  describe('close-code policy', () => {
+    const connect = async (reconnect: ReconnectConfig) => {
+      const socket = createSocket({ url: 'ws://test.com', reconnect });
+      const events: SocketEvent[] = [];
+      await vi.advanceTimersByTimeAsync(0);
+      socket.onEvent(event => {
+        if (event.type === 'reconnect' || event.type === 'failed') events.push(event);
+      });
+      return { socket, events };
+    };
+
+    it('should stop on a fatal close code and emit failed', async () => {
+      const { socket, events } = await connect({ fatalCodes: [1008, 4001] });
+
+      createdWebSockets[0].close(4001, 'Unauthorized');
+      await vi.runAllTimersAsync();
+
+      expect(socket.state).toBe('failed');
+      expect(createdWebSockets).toHaveLength(1);
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: 'failed',
+          meta: {
+            reason: 'fatal_close_code',
+            attempts: 0,
+            closeEvent: { code: 4001, reason: 'Unauthorized', wasClean: true },
+          },
+        }),
+      ]);
+    });
+
+    it('should reconnect without delay on an immediate close code', async () => {
+      await connect({ interval: 5000, immediateCodes: [1012] });
+
+      createdWebSockets[0].close(1012, 'Service restart');
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(createdWebSockets).toHaveLength(2);
+    });
+
+    it('should ask shouldReconnect with the close event and attempt', async () => {
+      const shouldReconnect = vi.fn(() => false);
+      const { socket, events } = await connect({ shouldReconnect });
+
+      createdWebSockets[0].close(1011, 'Internal error');
+      await vi.runAllTimersAsync();
+
+      expect(shouldReconnect).toHaveBeenCalledWith(
+        { code: 1011, reason: 'Internal error', wasClean: true },
+        1
+      );
+      expect(socket.state).toBe('failed');
+      expect(events.map(event => event.meta?.reason)).toEqual(['should_reconnect']);
+    });
+
+    it('should emit failed when a custom backoff function returns null', async () => {
+      const { events } = await connect({ backoff: () => null });
+
+      createdWebSockets[0].close(1006);
+      await vi.runAllTimersAsync();
+
+      expect(events.map(event => event.meta?.reason)).toEqual(['backoff_stopped']);
+    });
+  });
 });
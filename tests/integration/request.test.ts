@@ -0,0 +1,125 @@
+/**
+ * request.test.ts
+ *
+ * Purpose: Integration tests for request/response correlation via socket.request()
+ *
+ * Test Coverage:
+ * - Request sent over open connection resolves with the matching reply
+ * - Replies are kept out of messages() by default
+ * - Pending requests reject when the connection closes
+ * - Queued frames of rejected requests are never sent
+ *
+ * Boundaries:
+ * - Id stamping, timeout and abort details are tested in handlers/request-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { createTestServer } from '../../src/testing.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+type Message = { id?: number; type: string; value?: number };
+
+describe('Request/Response', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should resolve request with matching reply', async () => {
+    const socket = createSocket<Message, Message>({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+
+    const promise = socket.request<Message>({ type: 'sum' });
+    expect(ws.sentMessages).toEqual(['{"type":"sum","id":1}']);
+
+    ws.simulateMessage('{"id":1,"type":"result","value":42}');
+
+    await expect(promise).resolves.toEqual({ id: 1, type: 'result', value: 42 });
+    socket.close();
+  });
+
+  it('should keep replies out of messages()', async () => {
+    const socket = createSocket<Message, Message>({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+
+    const received: Message[] = [];
+    const controller = new AbortController();
+    const consumer = (async () => {
+      for await (const msg of socket.messages({ signal: controller.signal })) {
+        received.push(msg);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const promise = socket.request({ type: 'get' });
+    ws.simulateMessage('{"id":1,"type":"reply"}');
+    ws.simulateMessage('{"type":"push"}');
+    await promise;
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumer;
+
+    expect(received).toEqual([{ type: 'push' }]);
+    socket.close();
+  });
+
+  it('should reject pending requests when connection closes', async () => {
+    const socket = createSocket<Message, Message>({
+      url: 'ws://test.com',
+      reconnect: false,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    const ws = createdWebSockets[0];
+
+    const promise = socket.request({ type: 'get' });
+    const assertion = expect(promise).rejects.toThrow('Connection closed');
+    ws.close(1006, 'Abnormal closure');
+    await vi.advanceTimersByTimeAsync(0);
+
+    await assertion;
+  });
+
+  it('should reject pending requests on manual close', async () => {
+    const socket = createSocket<Message, Message>({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const promise = socket.request({ type: 'get' });
+    socket.close();
+
+    await expect(promise).rejects.toThrow('Connection closed');
+  });
+
+  it('should not send the queued frame of a request rejected by a failed reconnect', async () => {
+    const server = createTestServer();
+    server.onConnection(connection => {
+      if (server.connections.length === 2) connection.reject();
+    });
+    const socket = createSocket<Message, Message>({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100, jitter: 0 },
+    });
+    await vi.advanceTimersByTimeAsync(10);
+
+    server.connection.drop();
+    await vi.advanceTimersByTimeAsync(10);
+    const promise = socket.request({ type: 'op' });
+    const rejection = expect(promise).rejects.toThrow('Connection closed');
+    await vi.advanceTimersByTimeAsync(1000);
+    await rejection;
+
+    expect(server.connections).toHaveLength(3);
+    expect(socket.state).toBe('open');
+    expect(server.connection.sent).toEqual([]);
+    socket.close();
+  });
+});
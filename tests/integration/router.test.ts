@@ -0,0 +1,163 @@
+/**
+ * router.test.ts
+ *
+ * Purpose: Integration tests for routing messages by discriminator with on(), onUnknown() and stream()
+ *
+ * Test Coverage:
+ * - on() handlers per discriminator value and unsubscribing
+ * - onUnknown() fallback for messages without a matching on() handler
+ * - stream() iterators yielding only one message type
+ * - Custom router key
+ * - Handler error isolation
+ *
+ * Boundaries:
+ * - Type narrowing of payloads is verified in type-safety.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { createTestServer } from '../../src/testing.js';
+import type { TestServer } from '../../src/types.js';
+
+type Incoming =
+  | { type: 'chat'; text: string }
+  | { type: 'join'; user: string }
+  | { type: 'leave'; user: string };
+
+describe('Message router', () => {
+  let server: TestServer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = createTestServer();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should call on() handlers for their type only', async () => {
+    const socket = createSocket<Incoming>({ url: 'ws://test.local', transport: server.transport });
+    const chat = vi.fn();
+    const join = vi.fn();
+    const all = vi.fn();
+    socket.on('chat', chat);
+    socket.on('join', join);
+    socket.onMessage(all);
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.push({ type: 'chat', text: 'hi' });
+    server.connection.push({ type: 'join', user: 'kim' });
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(chat).toHaveBeenCalledWith({ type: 'chat', text: 'hi' });
+    expect(join).toHaveBeenCalledWith({ type: 'join', user: 'kim' });
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(all).toHaveBeenCalledTimes(2);
+    socket.close();
+  });
+
+  it('should send messages without an on() handler to onUnknown()', async () => {
+    const socket = createSocket<Incoming | string>({
+      url: 'ws://test.local',
+      transport: server.transport,
+      codec: 'text',
+    });
+    const unknown = vi.fn();
+    const off = socket.on('chat', vi.fn());
+    socket.onUnknown(unknown);
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.push('plain text');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(unknown).toHaveBeenCalledWith('plain text');
+
+    socket.close();
+    off();
+  });
+
+  it('should fall back to onUnknown() once the last on() handler of a type is removed', async () => {
+    const socket = createSocket<Incoming>({ url: 'ws://test.local', transport: server.transport });
+    const chat = vi.fn();
+    const unknown = vi.fn();
+    const off = socket.on('chat', chat);
+    socket.onUnknown(unknown);
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.push({ type: 'chat', text: 'a' });
+    server.connection.push({ type: 'leave', user: 'kim' });
+    await vi.advanceTimersByTimeAsync(10);
+    off();
+    server.connection.push({ type: 'chat', text: 'b' });
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(unknown.mock.calls).toEqual([
+      [{ type: 'leave', user: 'kim' }],
+      [{ type: 'chat', text: 'b' }],
+    ]);
+    socket.close();
+  });
+
+  it('should yield only the requested type from stream()', async () => {
+    const socket = createSocket<Incoming>({ url: 'ws://test.local', transport: server.transport });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const users: string[] = [];
+    const consumer = (async () => {
+      for await (const message of socket.stream('join')) {
+        users.push(message.user);
+        if (users.length === 2) break;
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.push({ type: 'join', user: 'kim' });
+    server.connection.push({ type: 'chat', text: 'hi' });
+    server.connection.push({ type: 'leave', user: 'kim' });
+    server.connection.push({ type: 'join', user: 'lee' });
+    await vi.advanceTimersByTimeAsync(10);
+    await consumer;
+
+    expect(users).toEqual(['kim', 'lee']);
+    socket.close();
+  });
+
+  it('should route by a custom router key', async () => {
+    type Event = { event: 'tick'; n: number } | { event: 'done' };
+    const socket = createSocket<Event, string, 'event'>({
+      url: 'ws://test.local',
+      transport: server.transport,
+      router: { key: 'event' },
+    });
+    const tick = vi.fn();
+    socket.on('tick', message => tick(message.n));
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.push({ event: 'tick', n: 1 });
+    server.connection.push({ type: 'tick', n: 2 });
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(tick.mock.calls).toEqual([[1]]);
+    socket.close();
+  });
+
+  it('should isolate handler errors', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const socket = createSocket<Incoming>({ url: 'ws://test.local', transport: server.transport });
+    const next = vi.fn();
+    socket.on('chat', () => {
+      throw new Error('boom');
+    });
+    socket.on('chat', next);
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.push({ type: 'chat', text: 'hi' });
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalledWith('Error in route handler:', expect.any(Error));
+    consoleError.mockRestore();
+    socket.close();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * send-delivery.test.ts
+ *
+ * Purpose: Integration tests for send(data, options) delivery Promises
+ *
+ * Test Coverage:
+ * - Resolving when the frame is written immediately or when the queue flushes on open
+ * - Rejecting queued messages discarded by close() and dispose()
+ * - Discarding messages still being encoded by an async codec on close()
+ * - Rejecting invalid messages with ValidationError
+ * - Plain send() keeping its fire-and-forget behavior
+ *
+ * Boundaries:
+ * - Overflow, timeout and abort handling is tested in handlers/message-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket, { ValidationError } from '../../src/index.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+describe('Send delivery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should resolve once the frame is written while open', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.runAllTimersAsync();
+
+    await expect(socket.send('hello', {})).resolves.toBeUndefined();
+    expect(createdWebSockets[0].sentMessages).toEqual(['hello']);
+    socket.close();
+  });
+
+  it('should resolve queued messages when the socket opens', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    const resolved = vi.fn();
+
+    socket.send('queued', {}).then(resolved);
+    expect(resolved).not.toHaveBeenCalled();
+    await vi.runAllTimersAsync();
+
+    expect(resolved).toHaveBeenCalledTimes(1);
+    expect(createdWebSockets[0].sentMessages).toEqual(['queued']);
+    socket.close();
+  });
+
+  it('should reject queued messages discarded by close()', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    const sent = socket.send('queued', {});
+
+    socket.close();
+
+    await expect(sent).rejects.toThrow('Connection closed');
+  });
+
+  it('should reject queued messages discarded by dispose()', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    const sent = socket.send('queued', { timeout: 1000 });
+
+    socket.dispose();
+
+    await expect(sent).rejects.toThrow('Socket disposed');
+  });
+
+  it('should discard messages still being encoded when close() is called', async () => {
+    const socket = createSocket<string, string>({
+      url: 'ws://test.com',
+      codec: {
+        encode: data => new Promise<string>(resolve => setTimeout(() => resolve(String(data)), 10)),
+        decode: data => String(data),
+      },
+    });
+    await vi.runAllTimersAsync();
+
+    const sent = socket.send('tracked', {});
+    socket.send('plain');
+    socket.close();
+
+    await expect(sent).rejects.toThrow('Connection closed');
+    socket.connect();
+    await vi.runAllTimersAsync();
+
+    expect(createdWebSockets).toHaveLength(2);
+    expect(createdWebSockets[0].sentMessages).toEqual([]);
+    expect(createdWebSockets[1].sentMessages).toEqual([]);
+    socket.close();
+  });
+
+  it('should reject invalid messages with ValidationError', async () => {
+    const socket = createSocket<string, unknown>({
+      url: 'ws://test.com',
+      validate: { outgoing: (value: unknown) => typeof value === 'string' },
+    });
+    await vi.runAllTimersAsync();
+
+    await expect(socket.send(42, {})).rejects.toBeInstanceOf(ValidationError);
+    expect(() => socket.send(42)).not.toThrow();
+    expect(createdWebSockets[0].sentMessages).toEqual([]);
+    socket.close();
+  });
+
+  it('should keep returning undefined from send() without options', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.runAllTimersAsync();
+
+    expect(socket.send('hello')).toBeUndefined();
+    expect(createdWebSockets[0].sentMessages).toEqual(['hello']);
+    socket.close();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * state.test.ts
+ *
+ * Purpose: Integration tests for the connection state machine exposed by Socket.state
+ *
+ * Test Coverage:
+ * - socket.state through a connect/close lifecycle
+ * - stateChange events delivered to onEvent() and events()
+ * - connect() rejected while the socket is already open
+ *
+ * Boundaries:
+ * - Individual transitions and guards are tested in handlers/connection-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock } from '../helpers.js';
+
+describe('Connection State', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should expose the current state', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    expect(socket.state).toBe('connecting');
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(socket.state).toBe('open');
+
+    socket.close();
+    expect(socket.state).toBe('closing');
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(socket.state).toBe('closed');
+  });
+
+  it('should emit stateChange events with from, to and reason', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    const changes: SocketEvent['meta'][] = [];
+    socket.onEvent(event => {
+      if (event.type === 'stateChange') changes.push(event.meta);
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    socket.close();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(changes).toEqual([
+      { from: 'connecting', to: 'open', reason: 'open' },
+      { from: 'open', to: 'closing', reason: 'manual' },
+      { from: 'closing', to: 'closed', reason: 'manual' },
+    ]);
+  });
+
+  it('should replay the initial transition to a new events() iterator', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    const iterator = socket.events()[Symbol.asyncIterator]();
+
+    const first = await iterator.next();
+
+    expect(first.value).toMatchObject({
+      type: 'stateChange',
+      meta: { from: 'idle', to: 'connecting', reason: 'connect' },
+    });
+    await iterator.return?.();
+    socket.close();
+  });
+
+  it('should reject connect() while open', async () => {
+    const socket = createSocket({ url: 'ws://test.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(() => socket.connect()).toThrow('Invalid state transition: open → connecting');
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * subscriptions.test.ts
+ *
+ * Purpose: Integration tests for socket.subscribe() topic subscriptions
+ *
+ * Test Coverage:
+ * - Subscribing before and after the socket opens
+ * - Replaying subscriptions after reconnect ahead of queued messages, with sync and async codecs
+ * - Consuming a topic with a handler and with for await
+ * - Clearing subscriptions on dispose()
+ *
+ * Boundaries:
+ * - Registry and routing details are tested in handlers/subscription-handler.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { createTestServer } from '../../src/testing.js';
+import type { TestServer } from '../../src/types.js';
+
+type Message = { topic: string; value: number };
+
+describe('Subscriptions', () => {
+  let server: TestServer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = createTestServer();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send subscriptions made before open once connected', async () => {
+    const socket = createSocket({ url: 'ws://test.local', transport: server.transport });
+    socket.subscribe('prices');
+
+    await vi.advanceTimersByTimeAsync(10);
+    socket.subscribe('news');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(server.connection.sent).toEqual([
+      '{"type":"subscribe","topic":"prices"}',
+      '{"type":"subscribe","topic":"news"}',
+    ]);
+    socket.close();
+  });
+
+  it('should resubscribe after reconnect before flushing queued messages', async () => {
+    const socket = createSocket<Message, unknown>({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100 },
+    });
+    const handler = vi.fn();
+    socket.subscribe('prices', handler);
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.drop();
+    await vi.advanceTimersByTimeAsync(0);
+    socket.send({ type: 'order' });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(server.connections).toHaveLength(2);
+    expect(server.connection.sent).toEqual([
+      '{"type":"subscribe","topic":"prices"}',
+      '{"type":"order"}',
+    ]);
+
+    server.connection.push({ topic: 'prices', value: 1 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(handler).toHaveBeenCalledWith({ topic: 'prices', value: 1 });
+    socket.close();
+  });
+
+  it('should resubscribe before flushing queued messages with an async codec', async () => {
+    const socket = createSocket<Message, unknown>({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100 },
+      codec: {
+        encode: data =>
+          new Promise<string>(resolve => setTimeout(() => resolve(JSON.stringify(data)), 5)),
+        decode: data => JSON.parse(String(data)) as Message,
+      },
+    });
+    socket.subscribe('news');
+    await vi.advanceTimersByTimeAsync(20);
+    expect(server.connection.sent).toEqual(['{"type":"subscribe","topic":"news"}']);
+
+    server.connection.drop();
+    await vi.advanceTimersByTimeAsync(0);
+    socket.send({ queued: true });
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(server.connections).toHaveLength(2);
+    expect(server.connection.sent).toEqual([
+      '{"type":"subscribe","topic":"news"}',
+      '{"queued":true}',
+    ]);
+    socket.close();
+  });
+
+  it('should not resubscribe topics unsubscribed while disconnected', async () => {
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100 },
+    });
+    const prices = socket.subscribe('prices');
+    socket.subscribe('news');
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.drop();
+    await vi.advanceTimersByTimeAsync(0);
+    prices.unsubscribe();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(server.connection.sent).toEqual(['{"type":"subscribe","topic":"news"}']);
+    socket.close();
+  });
+
+  it('should iterate the messages of a topic', async () => {
+    const socket = createSocket<Message>({ url: 'ws://test.local', transport: server.transport });
+    const subscription = socket.subscribe('prices');
+    await vi.advanceTimersByTimeAsync(0);
+
+    const values: number[] = [];
+    const consumer = (async () => {
+      for await (const message of subscription) {
+        values.push(message.value);
+        if (values.length === 2) break;
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.push({ topic: 'prices', value: 1 });
+    server.connection.push({ topic: 'news', value: 2 });
+    server.connection.push({ topic: 'prices', value: 3 });
+    await vi.advanceTimersByTimeAsync(0);
+    await consumer;
+
+    expect(values).toEqual([1, 3]);
+    expect(subscription.topic).toBe('prices');
+    socket.close();
+  });
+
+  it('should clear subscriptions on dispose', async () => {
+    const socket = createSocket({ url: 'ws://test.local', transport: server.transport });
+    const subscription = socket.subscribe('prices');
+    await vi.advanceTimersByTimeAsync(10);
+
+    socket.dispose();
+    subscription.unsubscribe();
+
+    expect(server.connection.sent).toEqual(['{"type":"subscribe","topic":"prices"}']);
+    expect(() => socket.subscribe('prices')).toThrow('Cannot subscribe after dispose()');
+  });
+});
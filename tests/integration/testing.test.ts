@@ -0,0 +1,198 @@
+/**
+ * testing.test.ts
+ *
+ * Purpose: Integration tests for the purrcat/testing loopback server
+ *
+ * Test Coverage:
+ * - Connecting through server.transport with automatic and manual accept
+ * - Pushing messages to clients and inspecting frames they sent
+ * - Rejecting, closing and dropping connections with close codes
+ * - Simulated latency and replying from server.onMessage
+ * - Use with real timers through nextConnection()
+ *
+ * Boundaries:
+ * - Custom transport handling in the socket is tested in transport.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import { createTestServer } from '../../src/testing.js';
+import type { SocketEvent } from '../../src/types.js';
+
+describe('Test server', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should connect, push messages and record sent frames', async () => {
+    const server = createTestServer();
+    const socket = createSocket<{ n: number }, { n: number }>({
+      url: 'ws://test.local',
+      protocols: 'chat',
+      transport: server.transport,
+    });
+    const received: { n: number }[] = [];
+    socket.onMessage(message => received.push(message));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(socket.state).toBe('open');
+    expect(server.connection.url).toBe('ws://test.local');
+    expect(server.connection.protocols).toBe('chat');
+
+    server.connection.push({ n: 1 });
+    socket.send({ n: 2 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(received).toEqual([{ n: 1 }]);
+    expect(server.connection.sent).toEqual(['{"n":2}']);
+    socket.close();
+  });
+
+  it('should hold connections until accepted when autoAccept is false', async () => {
+    const server = createTestServer({ autoAccept: false });
+    const socket = createSocket({ url: 'ws://test.local', transport: server.transport });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(socket.state).toBe('connecting');
+
+    server.connection.accept();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should reconnect after a rejected connection', async () => {
+    const server = createTestServer({ autoAccept: connection => server.connections.length > 1 });
+    server.onConnection(connection => {
+      if (server.connections.length === 1) connection.reject(1013, 'Try again later');
+    });
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100 },
+    });
+    const closes: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'close') closes.push(event);
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(closes[0]?.meta).toEqual({ code: 1013, reason: 'Try again later', wasClean: false });
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(server.connections).toHaveLength(2);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should deliver server closes with their code', async () => {
+    const server = createTestServer();
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { fatalCodes: [4001] },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.close(4001, 'Unauthorized');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(socket.state).toBe('failed');
+    expect(server.connection.closeInfo).toEqual({
+      code: 4001,
+      reason: 'Unauthorized',
+      wasClean: true,
+    });
+  });
+
+  it('should reconnect after a dropped connection', async () => {
+    const server = createTestServer();
+    const socket = createSocket({
+      url: 'ws://test.local',
+      transport: server.transport,
+      reconnect: { interval: 100 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.connection.drop();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(socket.state).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(server.connections).toHaveLength(2);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should record client closes', async () => {
+    const server = createTestServer();
+    const socket = createSocket({ url: 'ws://test.local', transport: server.transport });
+    await vi.advanceTimersByTimeAsync(0);
+
+    socket.close(4000, 'bye');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(server.connection.closeInfo).toEqual({ code: 4000, reason: 'bye', wasClean: true });
+    expect(() => server.connection.push('late')).toThrow('not open');
+  });
+
+  it('should delay traffic by the configured latency', async () => {
+    const server = createTestServer({ latency: 50 });
+    const socket = createSocket<string>({ url: 'ws://test.local', transport: server.transport });
+    const received: string[] = [];
+    socket.onMessage(message => received.push(message));
+
+    await vi.advanceTimersByTimeAsync(49);
+    expect(socket.state).toBe('connecting');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(socket.state).toBe('open');
+
+    server.latency = 200;
+    server.broadcast('slow');
+    await vi.advanceTimersByTimeAsync(199);
+    expect(received).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(received).toEqual(['slow']);
+    socket.close();
+  });
+
+  it('should let the server reply from onMessage', async () => {
+    const server = createTestServer();
+    server.onMessage((data, connection) => {
+      const { id } = JSON.parse(data as string);
+      connection.push({ id, ok: true });
+    });
+    const socket = createSocket<{ id: string; ok: boolean }, { id?: string; op: string }>({
+      url: 'ws://test.local',
+      transport: server.transport,
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    const reply = socket.request({ op: 'ping' });
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(reply).resolves.toMatchObject({ ok: true });
+    socket.close();
+  });
+
+  it('should work with real timers', async () => {
+    vi.useRealTimers();
+    const server = createTestServer();
+    const connected = server.nextConnection();
+    const socket = createSocket<string>({ url: 'ws://test.local', transport: server.transport });
+
+    const connection = await connected;
+    await socket.ready();
+    connection.push('hello');
+
+    for await (const message of socket.messages()) {
+      expect(message).toBe('hello');
+      break;
+    }
+    socket.close();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * transport.test.ts
+ *
+ * Purpose: Integration tests for supplying the WebSocket implementation through SocketOptions.transport
+ *
+ * Test Coverage:
+ * - Connecting, sending and receiving through a custom transport instead of the global WebSocket
+ * - Passing url and protocols to the factory for every attempt, reconnects included
+ * - Using the transport for primary probes during failover
+ * - Type compatibility of the DOM WebSocket with TransportFactory
+ *
+ * Boundaries:
+ * - Connection lifecycle with the default transport is tested in basic.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket from '../../src/index.js';
+import type { TransportFactory } from '../../src/types.js';
+import { MockWebSocket, setupWebSocketMock, cleanupWebSocketMock } from '../helpers.js';
+
+describe('Transport factory', () => {
+  let globalSpy: ReturnType<typeof setupWebSocketMock>;
+  let sockets: MockWebSocket[];
+  let transport: ReturnType<typeof vi.fn<TransportFactory>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    globalSpy = setupWebSocketMock();
+    sockets = [];
+    transport = vi.fn<TransportFactory>((url, protocols) => {
+      const ws = new MockWebSocket(url, protocols);
+      sockets.push(ws);
+      return ws;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  it('should connect, send and receive through the transport', async () => {
+    const socket = createSocket<{ text: string }, { text: string }>({
+      url: 'ws://test.com',
+      protocols: 'chat',
+      transport,
+    });
+    const received: { text: string }[] = [];
+    socket.onMessage(message => received.push(message));
+    await vi.advanceTimersByTimeAsync(0);
+
+    socket.send({ text: 'hello' });
+    sockets[0].simulateMessage(JSON.stringify({ text: 'hi' }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(transport).toHaveBeenCalledWith('ws://test.com', 'chat');
+    expect(globalSpy).not.toHaveBeenCalled();
+    expect(sockets[0].binaryType).toBe('arraybuffer');
+    expect(sockets[0].sentMessages).toEqual([JSON.stringify({ text: 'hello' })]);
+    expect(received).toEqual([{ text: 'hi' }]);
+    socket.close();
+  });
+
+  it('should use the transport for reconnect attempts', async () => {
+    const socket = createSocket({
+      url: 'ws://test.com',
+      transport,
+      reconnect: { interval: 100 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    sockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should retry when the transport throws', async () => {
+    const socket = createSocket({ url: 'ws://test.com', transport, reconnect: { interval: 100 } });
+    const onError = vi.fn();
+    socket.onEvent(event => {
+      if (event.type === 'error') onError(event.meta?.error);
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    transport.mockImplementationOnce(() => {
+      throw new Error('Proxy refused');
+    });
+    sockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onError).toHaveBeenCalledWith(new Error('Proxy refused'));
+    expect(transport).toHaveBeenCalledTimes(3);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+
+  it('should probe the primary endpoint through the transport', async () => {
+    const socket = createSocket({
+      url: ['ws://primary.test', 'ws://secondary.test'],
+      transport,
+      reconnect: { interval: 100 },
+      failover: { probeInterval: 1000 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    sockets[0].close(1006);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(transport.mock.calls.map(([url]) => url)).toContain('ws://primary.test');
+    expect(globalSpy).not.toHaveBeenCalled();
+    socket.close();
+  });
+
+  it('should accept the DOM WebSocket as a transport', () => {
+    const factory: TransportFactory = (url, protocols) => new WebSocket(url, protocols);
+
+    expect(typeof factory).toBe('function');
+  });
+});
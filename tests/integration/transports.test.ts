@@ -0,0 +1,188 @@
+/**
+ * transports.test.ts
+ *
+ * Purpose: Integration tests for the built-in SSE and long-polling transports and transport downgrade
+ *
+ * Test Coverage:
+ * - SSE: EventSource on the http(s) URL, POST sends in order, reconnect on EventSource errors
+ * - Long-polling: open on the first poll, 200 bodies delivered, 204 skipped, clean close
+ * - Downgrading from WebSocket to a fallback transport after repeated failures
+ *
+ * Boundaries:
+ * - Downgrade bookkeeping is tested in handlers/transport-handler.test.ts
+ * - Custom transport factories are tested in transport.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket, { sseTransport } from '../../src/index.js';
+import type { SocketEvent } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock } from '../helpers.js';
+
+class MockEventSource {
+  static instances: MockEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(
+    public url: string,
+    public init?: { withCredentials?: boolean }
+  ) {
+    MockEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+describe('Built-in transports', () => {
+  let polls: ((response: Response) => void)[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const posts = () =>
+    fetchMock.mock.calls
+      .filter(([, init]) => init?.method === 'POST')
+      .map(([url, init]) => [url, init?.body]);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+    MockEventSource.instances = [];
+    polls = [];
+    fetchMock = vi.fn((_url: string, init?: { method?: string }) =>
+      init?.method === 'POST'
+        ? Promise.resolve(new Response(null, { status: 200 }))
+        : new Promise<Response>(resolve => polls.push(resolve))
+    );
+    vi.stubGlobal('EventSource', MockEventSource);
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    cleanupWebSocketMock();
+  });
+
+  describe('sse', () => {
+    it('should receive through EventSource and send ordered POSTs', async () => {
+      const socket = createSocket<{ n: number }, { n: number }>({
+        url: 'wss://example.com/live',
+        transport: sseTransport({ sendUrl: url => `${url}/send`, withCredentials: true }),
+      });
+      const received: { n: number }[] = [];
+      socket.onMessage(message => received.push(message));
+      const eventSource = MockEventSource.instances[0];
+
+      expect(eventSource.url).toBe('https://example.com/live');
+      expect(eventSource.init).toEqual({ withCredentials: true });
+
+      eventSource.onopen?.();
+      eventSource.onmessage?.({ data: '{"n":1}' });
+      socket.send({ n: 2 });
+      socket.send({ n: 3 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(socket.state).toBe('open');
+      expect(received).toEqual([{ n: 1 }]);
+      expect(posts()).toEqual([
+        ['https://example.com/live/send', '{"n":2}'],
+        ['https://example.com/live/send', '{"n":3}'],
+      ]);
+      socket.close();
+    });
+
+    it('should close the EventSource and reconnect on error', async () => {
+      const socket = createSocket({
+        url: 'ws://example.com/live',
+        transport: 'sse',
+        reconnect: { interval: 100 },
+      });
+      const first = MockEventSource.instances[0];
+      first.onopen?.();
+
+      first.onerror?.();
+      expect(first.closed).toBe(true);
+      expect(socket.state).toBe('reconnecting');
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(MockEventSource.instances).toHaveLength(2);
+      socket.close();
+    });
+  });
+
+  describe('long-polling', () => {
+    it('should open on the first poll and deliver response bodies', async () => {
+      const socket = createSocket({ url: 'ws://example.com/poll', transport: 'long-polling' });
+      const received: string[] = [];
+      socket.onMessage(message => received.push(message));
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://example.com/poll',
+        expect.objectContaining({ method: 'GET' })
+      );
+      polls.shift()?.(new Response(null, { status: 204 }));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(socket.state).toBe('open');
+
+      polls.shift()?.(new Response('hello', { status: 200 }));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(received).toEqual(['hello']);
+
+      socket.close();
+      await vi.advanceTimersByTimeAsync(10);
+      expect(socket.state).toBe('closed');
+    });
+
+    it('should drop the connection when a poll fails', async () => {
+      const socket = createSocket({
+        url: 'ws://example.com/poll',
+        transport: 'long-polling',
+        reconnect: { interval: 100 },
+      });
+      const closes: SocketEvent[] = [];
+      socket.onEvent(event => {
+        if (event.type === 'close') closes.push(event);
+      });
+      polls.shift()?.(new Response(null, { status: 204 }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      polls.shift()?.(new Response(null, { status: 502 }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(closes[0]?.meta).toEqual({
+        code: 1006,
+        reason: 'Poll failed with status 502',
+        wasClean: false,
+      });
+      expect(socket.state).toBe('reconnecting');
+      socket.close();
+    });
+  });
+
+  it('should downgrade from WebSocket after repeated failures', async () => {
+    const spy = setupWebSocketMock();
+    spy.mockImplementation(function () {
+      throw new Error('Upgrade blocked');
+    });
+    const socket = createSocket({
+      url: 'ws://example.com/live',
+      reconnect: { interval: 100 },
+      fallback: { transports: ['sse'], after: 2 },
+    });
+    const downgrades: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'downgrade') downgrades.push(event);
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    MockEventSource.instances[0]?.onopen?.();
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(downgrades.map(event => event.meta)).toEqual([{ from: 'websocket', to: 'sse' }]);
+    expect(socket.state).toBe('open');
+    socket.close();
+  });
+});
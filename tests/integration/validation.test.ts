@@ -0,0 +1,227 @@
+/**
+ * validation.test.ts
+ *
+ * Purpose: Integration tests for the validate option (Standard Schema and type guards)
+ *
+ * Test Coverage:
+ * - Invalid incoming messages reported as invalid events instead of being delivered
+ * - Schema output (transformed values) delivered and sent
+ * - Invalid outgoing messages dropped, and thrown with rejectInvalidSend
+ * - Async schemas preserving message order
+ * - Throwing validators reported as issues
+ *
+ * Boundaries:
+ * - Codec behavior is tested in codec.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import createSocket, { ValidationError } from '../../src/index.js';
+import type { SocketEvent, StandardSchemaResult, StandardSchemaV1 } from '../../src/types.js';
+import { setupWebSocketMock, cleanupWebSocketMock, createdWebSockets } from '../helpers.js';
+
+type Chat = { type: 'chat'; text: string };
+
+const isChat = (value: unknown): value is Chat =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as Chat).type === 'chat' &&
+  typeof (value as Chat).text === 'string';
+
+// Minimal Standard Schema implementation, as exposed by Zod, Valibot and others
+const createSchema = (
+  check: (value: unknown) => StandardSchemaResult | Promise<StandardSchemaResult>
+): StandardSchemaV1 => ({
+  '~standard': { version: 1, vendor: 'test', validate: check },
+});
+
+const chatSchema = createSchema(value =>
+  isChat(value)
+    ? { value: { ...value, text: value.text.trim() } }
+    : { issues: [{ message: 'Expected a chat message', path: ['type'] }] }
+);
+
+describe('Validation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setupWebSocketMock();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanupWebSocketMock();
+  });
+
+  const collectInvalid = (socket: { onEvent(cb: (event: SocketEvent) => void): unknown }) => {
+    const events: SocketEvent[] = [];
+    socket.onEvent(event => {
+      if (event.type === 'invalid') events.push(event);
+    });
+    return events;
+  };
+
+  it('should deliver the output of valid incoming messages', async () => {
+    const socket = createSocket<Chat>({ url: 'ws://test.com', validate: { incoming: chatSchema } });
+    const received: Chat[] = [];
+    socket.onMessage(message => received.push(message));
+    await vi.runAllTimersAsync();
+
+    createdWebSockets[0].simulateMessage('{"type":"chat","text":" hi "}');
+
+    expect(received).toEqual([{ type: 'chat', text: 'hi' }]);
+  });
+
+  it('should emit invalid events instead of delivering invalid incoming messages', async () => {
+    const socket = createSocket<Chat>({ url: 'ws://test.com', validate: { incoming: chatSchema } });
+    const callback = vi.fn();
+    const receivedEvents = vi.fn();
+    socket.onMessage(callback);
+    socket.onEvent(event => {
+      if (event.type === 'received') receivedEvents(event);
+    });
+    const invalid = collectInvalid(socket);
+    await vi.runAllTimersAsync();
+
+    createdWebSockets[0].simulateMessage('{"type":"join"}');
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(receivedEvents).not.toHaveBeenCalled();
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].meta).toEqual({
+      direction: 'incoming',
+      data: '{"type":"join"}',
+      issues: [{ message: 'Expected a chat message', path: ['type'] }],
+    });
+  });
+
+  it('should accept type guards', async () => {
+    const socket = createSocket<Chat>({ url: 'ws://test.com', validate: { incoming: isChat } });
+    const callback = vi.fn();
+    socket.onMessage(callback);
+    const invalid = collectInvalid(socket);
+    await vi.runAllTimersAsync();
+
+    createdWebSockets[0].simulateMessage('{"type":"chat","text":"a"}');
+    createdWebSockets[0].simulateMessage('plain');
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(invalid[0].meta?.issues).toEqual([{ message: 'Type guard rejected message' }]);
+  });
+
+  it('should keep invalid messages out of messages() iterators', async () => {
+    const socket = createSocket<Chat>({ url: 'ws://test.com', validate: { incoming: isChat } });
+    await vi.runAllTimersAsync();
+    const ws = createdWebSockets[0];
+
+    const controller = new AbortController();
+    const texts: string[] = [];
+    const consumer = (async () => {
+      for await (const message of socket.messages({ signal: controller.signal })) {
+        texts.push(message.text);
+      }
+    })();
+    await vi.advanceTimersByTimeAsync(0);
+
+    ws.simulateMessage('{"type":"chat","text":"a"}');
+    ws.simulateMessage('{"type":"chat"}');
+    ws.simulateMessage('{"type":"chat","text":"b"}');
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.abort();
+    await consumer;
+
+    expect(texts).toEqual(['a', 'b']);
+  });
+
+  it('should preserve message order with async schemas', async () => {
+    const asyncSchema = createSchema(
+      value =>
+        new Promise<StandardSchemaResult>(resolve =>
+          setTimeout(
+            () => resolve(isChat(value) ? { value } : { issues: [{ message: 'Bad' }] }),
+            (value as Chat).text === 'slow' ? 50 : 0
+          )
+        )
+    );
+    const socket = createSocket<Chat>({
+      url: 'ws://test.com',
+      validate: { incoming: asyncSchema },
+    });
+    const texts: string[] = [];
+    socket.onMessage(message => texts.push(message.text));
+    await vi.runAllTimersAsync();
+
+    createdWebSockets[0].simulateMessage('{"type":"chat","text":"slow"}');
+    createdWebSockets[0].simulateMessage('{"type":"chat","text":"fast"}');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(texts).toEqual(['slow', 'fast']);
+  });
+
+  it('should report throwing validators as issues', async () => {
+    const throwing = createSchema(() => {
+      throw new Error('Schema exploded');
+    });
+    const socket = createSocket({ url: 'ws://test.com', validate: { incoming: throwing } });
+    const callback = vi.fn();
+    socket.onMessage(callback);
+    const invalid = collectInvalid(socket);
+    await vi.runAllTimersAsync();
+
+    createdWebSockets[0].simulateMessage('x');
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(invalid[0].meta?.issues).toEqual([{ message: 'Schema exploded' }]);
+  });
+
+  it('should drop invalid outgoing messages and send the schema output', async () => {
+    const socket = createSocket<string, unknown>({
+      url: 'ws://test.com',
+      validate: { outgoing: chatSchema },
+    });
+    const invalid = collectInvalid(socket);
+    await vi.runAllTimersAsync();
+
+    socket.send({ type: 'chat', text: ' hello ' });
+    socket.send({ type: 'oops' });
+
+    expect(createdWebSockets[0].sentMessages).toEqual(['{"type":"chat","text":"hello"}']);
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].meta).toMatchObject({ direction: 'outgoing', data: { type: 'oops' } });
+  });
+
+  it('should not queue invalid messages while disconnected', async () => {
+    const socket = createSocket<string, unknown>({
+      url: 'ws://test.com',
+      validate: { outgoing: isChat },
+    });
+
+    socket.send({ type: 'oops' });
+    socket.send({ type: 'chat', text: 'queued' });
+    await vi.runAllTimersAsync();
+
+    expect(createdWebSockets[0].sentMessages).toEqual(['{"type":"chat","text":"queued"}']);
+  });
+
+  it('should throw ValidationError from send() with rejectInvalidSend', async () => {
+    const socket = createSocket<string, unknown>({
+      url: 'ws://test.com',
+      validate: { outgoing: chatSchema, rejectInvalidSend: true },
+    });
+    await vi.runAllTimersAsync();
+
+    let error: unknown;
+    try {
+      socket.send({ type: 'oops' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      direction: 'outgoing',
+      issues: [{ message: 'Expected a chat message', path: ['type'] }],
+      message: 'Invalid outgoing message: Expected a chat message',
+    });
+    expect(createdWebSockets[0].sentMessages).toEqual([]);
+  });
+});
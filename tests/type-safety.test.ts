@@ -8,13 +8,15 @@
  * - Custom Incoming type specification and type safety
  * - Custom Outgoing type specification and type safety
  * - Type inference and type checking
+ * - Narrowing of on()/stream() payloads by the router key
+ * - send() return type with and without SendOptions
  *
  * Boundaries:
  * - Runtime behavior is verified in other test files
  * - Only type-level safety is verified here
  */
 
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach, vi } from 'vitest';
 import createSocket from '../src/index.js';
 import { setupWebSocketMock, cleanupWebSocketMock } from './helpers';
 
@@ -163,4 +165,35 @@ describe('Type Safety', () => {
 
     expect(socket).toBeDefined();
   });
+
+  it('should narrow on() and stream() payloads by the router key', async () => {
+    type Incoming = { kind: 'chat'; text: string } | { kind: 'join'; user: string };
+
+    const socket = createSocket<Incoming, string, 'kind'>({
+      url: 'ws://test.com',
+      router: { key: 'kind' },
+    });
+    await vi.runAllTimersAsync();
+
+    socket.on('chat', msg => {
+      expectTypeOf(msg).toEqualTypeOf<{ kind: 'chat'; text: string }>();
+    });
+    expectTypeOf(socket.stream('join')).toEqualTypeOf<
+      AsyncIterable<{ kind: 'join'; user: string }>
+    >();
+    // @ts-expect-error - 'leave' is not a kind of Incoming
+    socket.on('leave', () => {});
+
+    expect(socket).toBeDefined();
+  });
+
+  it('should return a Promise from send() only when options are given', async () => {
+    const socket = createSocket<string, { type: 'ping' }>({ url: 'ws://test.com' });
+    await vi.runAllTimersAsync();
+
+    expectTypeOf(socket.send({ type: 'ping' })).toEqualTypeOf<void>();
+    expectTypeOf(socket.send({ type: 'ping' }, { timeout: 100 })).toEqualTypeOf<Promise<void>>();
+
+    expect(socket).toBeDefined();
+  });
 });